@@ -1,7 +1,21 @@
 import React, { useRef } from 'react'
 import { useAppStore } from './store/appStore'
 import { PdfViewer } from './components/PdfViewer'
+import { PageNavigator } from './components/PageNavigator'
 import { SignaturePanel } from './components/SignaturePanel'
+import { CertificatePanel } from './components/CertificatePanel'
+import { ExportPanel } from './components/ExportPanel'
+import { VerificationPanel } from './components/VerificationPanel'
+import { PasswordPrompt } from './components/PasswordPrompt'
+import { FormPanel } from './components/FormPanel'
+import { StampPanel } from './components/StampPanel'
+import { AnchorPanel } from './components/AnchorPanel'
+import { SessionPanel } from './components/SessionPanel'
+import { SignatureLibrary } from './components/SignatureLibrary'
+import { EnvelopePanel } from './components/EnvelopePanel'
+import { TemplatePanel } from './components/TemplatePanel'
+import { BatchPanel } from './components/BatchPanel'
+import { SigningRulesPanel } from './components/SigningRulesPanel'
 
 export default function App(){
   const fileInput = useRef<HTMLInputElement>(null)
@@ -68,24 +82,48 @@ export default function App(){
           </div>
           <input ref={fileInput} type="file" accept="application/pdf" onChange={handlePdfUpload} />
         </div>
+        <SessionPanel />
+        <PasswordPrompt />
         <div style={{marginTop:12}} className="row">
           <button onClick={handleClearAll}>Clear Session</button>
           <button className="primary" onClick={exportAll} disabled={!hasDoc}>Download Signed PDF</button>
         </div>
+        <ExportPanel />
+        <SigningRulesPanel />
         {placements.length > 0 && (
           <div style={{marginTop:8, padding:8, background:'#f9fafb', borderRadius:4, fontSize:12}}>
-            <strong>{placements.length}</strong> signature{placements.length !== 1 ? 's' : ''} placed
+            <strong>{placements.length}</strong> item{placements.length !== 1 ? 's' : ''} placed
           </div>
         )}
+        <VerificationPanel />
+        <FormPanel />
+        <SignatureLibrary />
         <SignaturePanel />
+        <StampPanel />
+        <AnchorPanel />
+        <TemplatePanel />
+        <BatchPanel />
+        <EnvelopePanel />
+        <CertificatePanel />
         <div className="hint" style={{marginTop:12}}>
           <p><strong>How to use:</strong></p>
           <p>• Create/select a signature above</p>
+          <p>• Save signatures and initials to your library to reuse them; ★ marks the one selected at startup</p>
           <p>• Tap anywhere on PDF to place it</p>
+          <p>• Add dates, text, initials or check marks from Stamps</p>
+          <p>• Or find anchor text such as "Signature:" to place them on every match</p>
+          <p>• Signing the same form again? Save the layout as a template and apply it to the next copy</p>
+          <p>• To sign many PDFs at once, choose them under Batch signing with a template or anchor text; you get one ZIP</p>
+          <p>• Jump to a page from the thumbnails; badges count placed items and signature fields left</p>
+          <p>• Rotate, delete or add a blank page under each thumbnail, drag thumbnails to reorder, or merge another PDF at the end</p>
           <p>• Tap signature to select (red border + blue dot)</p>
           <p>• Drag to move, pinch to resize, or drag blue dot</p>
           <p>• Long press or Delete key to remove</p>
+          <p>• Undo with Ctrl+Z, redo with Ctrl+Shift+Z, or the toolbar buttons</p>
           <p>• Tap empty area to deselect</p>
+          <p>• For several signers, prepare an envelope: add signers in signing order and place their fields, then send the PDF and envelope file on</p>
+          <p>• Turn on signing rules to check the document before download; click an issue to go to its page</p>
+          <p>• Your work is kept in this browser and offered for resuming; Clear Session removes it</p>
         </div>
       </aside>
       <main className="viewer">
@@ -93,7 +131,10 @@ export default function App(){
           <strong>PDF Signer — Interactive</strong>
           <span style={{marginLeft:8, color:'#6b7280'}}>local-only</span>
         </div>
-        <PdfViewer />
+        <div className="viewer-body">
+          <PageNavigator />
+          <PdfViewer />
+        </div>
       </main>
     </div>
   )
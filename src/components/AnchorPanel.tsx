@@ -0,0 +1,100 @@
+import React, { useState } from 'react'
+import { currentPlacementContent, useAppStore } from '../store/appStore'
+import { AnchorMatch, AnchorOffset, DEFAULT_ANCHORS, anchorPlacementRect, findAnchors } from '../modules/pdf/anchors'
+import { defaultPercentSize } from '../modules/pdf/placementSize'
+import { getPageTexts } from '../modules/pdf/render'
+
+/** Find anchor text in the document and place the current signature or stamp at every confirmed match. */
+export const AnchorPanel: React.FC = () => {
+  const { hasDoc, pdfDocument, pageGeometries, addPlacements } = useAppStore()
+  const [anchors, setAnchors] = useState(DEFAULT_ANCHORS.join('\n'))
+  const [offset, setOffset] = useState<AnchorOffset>({ from: 'end', x: 4, y: 0 })
+  const [matches, setMatches] = useState<AnchorMatch[] | null>(null)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [searching, setSearching] = useState(false)
+
+  if (!hasDoc) return null
+
+  const search = async () => {
+    if (!pdfDocument) return
+    setSearching(true)
+    try {
+      // Page text is extracted on the first search, not while the pages load
+      const found = findAnchors(await getPageTexts(pdfDocument), pageGeometries, anchors.split('\n'))
+      setMatches(found)
+      setSelected(new Set(found.map((_, i) => i)))
+    } catch (error) {
+      console.error('Anchor search error:', error)
+      alert('Failed to read the text of the PDF.')
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const place = async () => {
+    const content = currentPlacementContent(useAppStore.getState())
+    if (!content) {
+      alert('Create a signature or stamp first, then place it on the anchors')
+      return
+    }
+    if (!matches) return
+    try {
+      const items = await Promise.all(matches.filter((_, i) => selected.has(i)).map(async match => {
+        const g = pageGeometries[match.pageIndex]
+        return { pageIndex: match.pageIndex, rect: anchorPlacementRect(match, await defaultPercentSize(content, g), offset, g) }
+      }))
+      addPlacements(items, content)
+      setMatches(null)
+    } catch (error) {
+      console.error('Anchor placement error:', error)
+      alert('Failed to place on the anchors. Please try again.')
+    }
+  }
+
+  const toggle = (i: number) => {
+    const next = new Set(selected)
+    next.has(i) ? next.delete(i) : next.add(i)
+    setSelected(next)
+  }
+
+  return (
+    <div style={{marginTop:16}}>
+      <div><strong>Anchor text</strong></div>
+      <div className="hint">One per line; * matches any characters, e.g. {'{{sig*}}'}</div>
+      <textarea rows={4} value={anchors} onChange={(e) => setAnchors(e.target.value)}
+        style={{width:'100%', boxSizing:'border-box', marginTop:4, fontFamily:'monospace', fontSize:12}} />
+      <div style={{display:'flex', gap:8, marginTop:8, alignItems:'center', fontSize:12}}>
+        <select value={offset.from} onChange={(e) => setOffset({ ...offset, from: e.target.value as AnchorOffset['from'] })}>
+          <option value="end">After the anchor</option>
+          <option value="start">Over the anchor</option>
+        </select>
+        <label>x <input type="number" value={offset.x} style={{width:48}} title="Points to the right"
+          onChange={(e) => setOffset({ ...offset, x: Number(e.target.value) || 0 })} /></label>
+        <label>y <input type="number" value={offset.y} style={{width:48}} title="Points down"
+          onChange={(e) => setOffset({ ...offset, y: Number(e.target.value) || 0 })} /></label>
+      </div>
+      <div style={{marginTop:8}}>
+        <button onClick={search} disabled={!pdfDocument || searching}>{searching ? 'Searching…' : 'Find Anchors'}</button>
+      </div>
+      {matches && matches.length === 0 && (
+        <div className="hint" style={{marginTop:8}}>No anchors found. Scanned pages have no text to search.</div>
+      )}
+      {matches && matches.length > 0 && (
+        <div style={{marginTop:8}}>
+          <div style={{maxHeight:200, overflowY:'auto', fontSize:12, border:'1px solid #e5e7eb', borderRadius:4, padding:4}}>
+            {matches.map((match, i) => (
+              <label key={i} style={{display:'block'}}>
+                <input type="checkbox" checked={selected.has(i)} onChange={() => toggle(i)} />
+                {' '}Page {match.pageIndex + 1}: <code>{match.text}</code>
+              </label>
+            ))}
+          </div>
+          <div style={{display:'flex', gap:8, marginTop:8}}>
+            <button className="primary" onClick={place} disabled={selected.size === 0}>Place on {selected.size} anchor{selected.size !== 1 ? 's' : ''}</button>
+            <button onClick={() => setMatches(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
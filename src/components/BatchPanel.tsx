@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useAppStore } from '../store/appStore'
+import { AnchorOffset, DEFAULT_ANCHORS } from '../modules/pdf/anchors'
+
+const smallButtonStyle: React.CSSProperties = { fontSize:11, padding:'2px 6px', minHeight:0, width:'auto', margin:0 }
+
+const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name)
+
+/** Sign many PDFs at once by a template or anchor text; the signed files come back as one ZIP with a summary. */
+export const BatchPanel: React.FC = () => {
+  const { templates, batchProgress, batchResults, signBatch } = useAppStore()
+  const [files, setFiles] = useState<File[]>([])
+  const [source, setSource] = useState('anchors') // A template id, or 'anchors'
+  const [anchors, setAnchors] = useState(DEFAULT_ANCHORS.join('\n'))
+  const [offset, setOffset] = useState<AnchorOffset>({ from: 'end', x: 4, y: 0 })
+  const filesInput = useRef<HTMLInputElement>(null)
+  const folderInput = useRef<HTMLInputElement>(null)
+
+  // Not in React's input attributes
+  useEffect(() => folderInput.current?.setAttribute('webkitdirectory', ''), [])
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(e.target.files ?? []).filter(isPdf).sort((a, b) => a.name.localeCompare(b.name)))
+    e.target.value = ''
+  }
+
+  // A deleted template falls back to anchors
+  const rule = templates.some(t => t.id === source) ? source : 'anchors'
+
+  const handleSign = () => {
+    signBatch(files, rule === 'anchors'
+      ? { kind: 'anchors', anchors: anchors.split('\n'), offset }
+      : { kind: 'template', templateId: rule })
+  }
+
+  const needsAttention = batchResults?.filter(r => r.status !== 'signed') ?? []
+
+  return (
+    <div style={{marginTop:16, fontSize:12}}>
+      <div><strong>Batch signing</strong></div>
+      <div className="row" style={{marginTop:8}}>
+        <button style={smallButtonStyle} onClick={() => filesInput.current?.click()}>Choose PDFs</button>
+        <button style={smallButtonStyle} onClick={() => folderInput.current?.click()}>Choose folder</button>
+        <span className="hint">{files.length} PDF{files.length !== 1 ? 's' : ''}</span>
+      </div>
+      <input ref={filesInput} type="file" accept="application/pdf" multiple onChange={handleFiles} style={{display:'none'}} />
+      <input ref={folderInput} type="file" onChange={handleFiles} style={{display:'none'}} />
+      {files.length > 0 && (
+        <>
+          <select value={rule} onChange={(e) => setSource(e.target.value)} style={{width:'100%', marginTop:8}}>
+            <option value="anchors">Place at anchor text</option>
+            {templates.map(t => <option key={t.id} value={t.id}>Template: {t.name}</option>)}
+          </select>
+          {rule === 'anchors' && (
+            <>
+              <textarea rows={3} value={anchors} onChange={(e) => setAnchors(e.target.value)}
+                style={{width:'100%', boxSizing:'border-box', marginTop:4, fontFamily:'monospace', fontSize:12}} />
+              <div style={{display:'flex', gap:8, marginTop:4, alignItems:'center'}}>
+                <select value={offset.from} onChange={(e) => setOffset({ ...offset, from: e.target.value as AnchorOffset['from'] })}>
+                  <option value="end">After the anchor</option>
+                  <option value="start">Over the anchor</option>
+                </select>
+                <label>x <input type="number" value={offset.x} style={{width:48}} title="Points to the right"
+                  onChange={(e) => setOffset({ ...offset, x: Number(e.target.value) || 0 })} /></label>
+                <label>y <input type="number" value={offset.y} style={{width:48}} title="Points down"
+                  onChange={(e) => setOffset({ ...offset, y: Number(e.target.value) || 0 })} /></label>
+              </div>
+            </>
+          )}
+          <button className="primary" style={{marginTop:8}} disabled={!!batchProgress} onClick={handleSign}>
+            {batchProgress ? `Signing ${Math.min(batchProgress.done + 1, batchProgress.total)} of ${batchProgress.total}…` : `Sign ${files.length} into ZIP`}
+          </button>
+          <div className="hint" style={{marginTop:4}}>
+            Uses the current signature (the template's signature and initials, or what a click would place) and the export settings above.
+            Signing rules are not checked: they apply to the open document, not to the batch files.
+          </div>
+        </>
+      )}
+      {batchResults && (
+        <div style={{marginTop:8, padding:8, borderRadius:4, background: needsAttention.length ? '#fffbeb' : '#f0fdf4', color: needsAttention.length ? '#92400e' : '#166534'}}>
+          {batchResults.length - needsAttention.length} of {batchResults.length} signed.
+          {needsAttention.length > 0 && (
+            <ul style={{margin:'4px 0 0', paddingLeft:16}}>
+              {needsAttention.map((r, i) => <li key={i}>{r.file}: {r.details}</li>)}
+            </ul>
+          )}
+          <div className="hint">Details are in summary.csv in the ZIP.</div>
+        </div>
+      )}
+    </div>
+  )
+}
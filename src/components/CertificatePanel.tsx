@@ -0,0 +1,72 @@
+import React, { useRef, useState } from 'react'
+import { useAppStore } from '../store/appStore'
+import { loadSigningIdentity } from '../modules/sign/pkcs12'
+
+export const CertificatePanel: React.FC = () => {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [certFile, setCertFile] = useState<File | null>(null)
+  const [password, setPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const { signingIdentity, setSigningIdentity } = useAppStore()
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0] || null
+    if (f && !/\.(p12|pfx)$/i.test(f.name)) {
+      alert('Invalid file type. Please select a .p12 or .pfx certificate.')
+      e.target.value = ''
+      return
+    }
+    setCertFile(f)
+  }
+
+  const handleLoad = async () => {
+    if (!certFile) {
+      alert('Please choose a certificate file first')
+      return
+    }
+    setLoading(true)
+    try {
+      const identity = await loadSigningIdentity(certFile, password)
+      setSigningIdentity(identity)
+      // Don't keep the password or file around once the key is unlocked
+      setPassword('')
+      setCertFile(null)
+      if (fileInput.current) fileInput.current.value = ''
+    } catch (error) {
+      console.error('Certificate load failed:', error)
+      alert(error instanceof Error ? error.message : 'Failed to load certificate.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div style={{marginTop:16}}>
+      <div><strong>Digital signature</strong> <span className="hint">(optional)</span></div>
+      {signingIdentity ? (
+        <div style={{marginTop:8, padding:8, background:'#f0fdf4', borderRadius:4, fontSize:12, color:'#166534'}}>
+          <div>✓ Export will be digitally signed as:</div>
+          <div style={{wordBreak:'break-word', marginTop:4}}>{signingIdentity.subject}</div>
+          <div style={{color:'#6b7280', marginTop:4}}>Valid until {signingIdentity.validTo.toLocaleDateString()}</div>
+          <button style={{fontSize:10, padding:'2px 6px', marginTop:6, minHeight:0}} onClick={() => setSigningIdentity(null)}>Remove</button>
+        </div>
+      ) : (
+        <div style={{marginTop:8}}>
+          <input ref={fileInput} type="file" accept=".p12,.pfx,application/x-pkcs12" onChange={handleFileChange} />
+          <div className="row" style={{marginTop:8}}>
+            <input
+              type="password"
+              placeholder="Certificate password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="off"
+              style={{flex:1, minWidth:0}}
+            />
+            <button onClick={handleLoad} disabled={!certFile || loading}>{loading ? 'Loading…' : 'Load'}</button>
+          </div>
+          <div className="hint" style={{marginTop:4}}>The .p12/.pfx file is opened in this browser only and never uploaded.</div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react'
+import { useAppStore } from '../store/appStore'
+import { EnvelopeFieldKind, openEnvelopeFields } from '../modules/envelope/envelope'
+
+const smallButtonStyle: React.CSSProperties = { fontSize:11, padding:'2px 6px', minHeight:0, width:'auto', margin:0 }
+const FIELD_LABELS: Record<EnvelopeFieldKind, string> = { signature: 'Signature', initials: 'Initials' }
+
+/**
+ * Several signers in turn. The sender lists signers in signing order and places fields for each; each
+ * signer opens the PDF with its envelope file, fills their own fields and passes both on.
+ */
+export const EnvelopePanel: React.FC = () => {
+  const {
+    hasDoc, placements, placing, envelope, envelopeSignerId, envelopeReceived, envelopeFieldKind, startEnvelope, addSigner, updateSigner,
+    moveSigner, removeSigner, setEnvelopeSigner, setPlacingFields, removeEnvelopeField, discardEnvelope, openEnvelope, exportEnvelope, goToPage
+  } = useAppStore()
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const envelopeInput = useRef<HTMLInputElement>(null)
+
+  if (!hasDoc) return null
+
+  const handleOpen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) openEnvelope(file)
+  }
+
+  const handleAddSigner = (e: React.FormEvent) => {
+    e.preventDefault()
+    addSigner(name, email)
+    setName('')
+    setEmail('')
+  }
+
+  if (!envelope) {
+    return (
+      <div style={{marginTop:16}}>
+        <div><strong>Multiple signers</strong></div>
+        <div className="row" style={{marginTop:8}}>
+          <button onClick={startEnvelope}>Prepare envelope</button>
+          <button onClick={() => envelopeInput.current?.click()}>Open envelope file</button>
+        </div>
+        <input ref={envelopeInput} type="file" accept="application/json,.json" onChange={handleOpen} style={{display:'none'}} />
+        <div className="hint" style={{marginTop:4}}>Received a PDF with an envelope file? Open the PDF above, then its envelope file.</div>
+      </div>
+    )
+  }
+
+  if (envelopeReceived) {
+    const signer = envelope.signers.find(s => s.id === envelopeSignerId)
+    const done = envelope.completed.some(c => c.signerId === envelopeSignerId)
+    const own = envelope.fields.filter(field => field.signerId === envelopeSignerId)
+    const open = signer ? openEnvelopeFields(envelope, signer.id, placements) : []
+    // Earlier signers have all finished, so the next one is the first other signer who hasn't
+    const next = envelope.signers.find(s => s.id !== envelopeSignerId && !envelope.completed.some(c => c.signerId === s.id))
+    return (
+      <div style={{marginTop:16, fontSize:12}}>
+        <div><strong>Envelope</strong></div>
+        <ol style={{margin:'8px 0 0', paddingLeft:20}}>
+          {envelope.signers.map(s => {
+            const finished = envelope.completed.some(c => c.signerId === s.id)
+            return (
+              <li key={s.id} style={{color:s.color, fontWeight: s.id === envelopeSignerId ? 'bold' : undefined}}>
+                {s.name}{s.email && <span className="hint"> {s.email}</span>}
+                {finished ? ' ✓' : s.id === envelopeSignerId ? ' ← you' : ''}
+              </li>
+            )
+          })}
+        </ol>
+        {signer && !done && (
+          <div style={{marginTop:8}}>
+            <div>{own.length - open.length} of {own.length} fields filled</div>
+            {open.length > 0 && (
+              <button style={{...smallButtonStyle, marginTop:4}} onClick={() => goToPage(open[0].pageIndex)}>Go to next field</button>
+            )}
+            <div className="hint" style={{marginTop:4}}>Select your signature or initials, then click your fields to fill them.</div>
+            <button className="primary" style={{marginTop:8}} disabled={open.length > 0} onClick={exportEnvelope}>
+              {next ? `Finish and send to ${next.name}` : 'Finish signing'}
+            </button>
+          </div>
+        )}
+        {done && (
+          <div style={{marginTop:8, padding:8, background:'#f0fdf4', borderRadius:4, color:'#166534'}}>
+            {next
+              ? `✓ Done. Send the downloaded PDF and envelope file to ${next.name}.`
+              : '✓ Done. Everyone has signed; the downloaded PDF is the finished document.'}
+          </div>
+        )}
+        <button style={{...smallButtonStyle, marginTop:8}} onClick={discardEnvelope}>Close envelope</button>
+      </div>
+    )
+  }
+
+  const active = envelope.signers.find(s => s.id === envelopeSignerId)
+  return (
+    <div style={{marginTop:16, fontSize:12}}>
+      <div><strong>Envelope</strong> <span className="hint">signers sign in this order</span></div>
+      {envelope.signers.map((signer, i) => {
+        const fields = envelope.fields.filter(field => field.signerId === signer.id)
+        return (
+          <div key={signer.id} style={{marginTop:6, padding:6, borderRadius:4, border:`2px solid ${signer.id === envelopeSignerId ? signer.color : '#e5e7eb'}`}}>
+            <div style={{display:'flex', gap:4, alignItems:'center'}}>
+              <input type="radio" checked={signer.id === envelopeSignerId} onChange={() => setEnvelopeSigner(signer.id)} title="Add fields for this signer" />
+              <input type="color" value={signer.color} onChange={(e) => updateSigner(signer.id, { color: e.target.value })} title="Color" />
+              <span style={{flex:1, minWidth:0, overflow:'hidden', textOverflow:'ellipsis', whiteSpace:'nowrap'}} title={signer.email}>
+                {i + 1}. {signer.name}
+              </span>
+              <button style={smallButtonStyle} title="Sign earlier" disabled={i === 0} onClick={() => moveSigner(signer.id, -1)}>↑</button>
+              <button style={smallButtonStyle} title="Sign later" disabled={i === envelope.signers.length - 1} onClick={() => moveSigner(signer.id, 1)}>↓</button>
+              <button style={smallButtonStyle} title="Remove signer and their fields" onClick={() => removeSigner(signer.id)}>✕</button>
+            </div>
+            {fields.map(field => (
+              <div key={field.id} style={{display:'flex', alignItems:'center', gap:4, marginTop:2, paddingLeft:20}}>
+                <button style={{...smallButtonStyle, border:'none', background:'none'}} onClick={() => goToPage(field.pageIndex)}>
+                  {FIELD_LABELS[field.kind]}, page {field.pageIndex + 1}
+                </button>
+                <button style={smallButtonStyle} title="Remove field" onClick={() => removeEnvelopeField(field.id)}>✕</button>
+              </div>
+            ))}
+          </div>
+        )
+      })}
+      <form onSubmit={handleAddSigner} style={{display:'flex', gap:4, marginTop:8}}>
+        <input placeholder="Signer name" value={name} maxLength={50} onChange={(e) => setName(e.target.value)} style={{flex:1, minWidth:0}} />
+        <input type="email" placeholder="Email (label)" value={email} maxLength={100} onChange={(e) => setEmail(e.target.value)} style={{flex:1, minWidth:0}} />
+        <button type="submit" style={smallButtonStyle}>Add</button>
+      </form>
+      {active && (
+        placing === 'field' ? (
+          <div style={{marginTop:8, padding:8, background:'#f0f9ff', borderRadius:4, color:'#0369a1', display:'flex', alignItems:'center', justifyContent:'space-between'}}>
+            <span>Click on the PDF to add {FIELD_LABELS[envelopeFieldKind].toLowerCase()} fields for {active.name}.</span>
+            <button style={smallButtonStyle} onClick={() => setPlacingFields(null)}>Done</button>
+          </div>
+        ) : (
+          <div className="row" style={{marginTop:8}}>
+            <button style={smallButtonStyle} onClick={() => setPlacingFields('signature')}>+ Signature field</button>
+            <button style={smallButtonStyle} onClick={() => setPlacingFields('initials')}>+ Initials field</button>
+          </div>
+        )
+      )}
+      <div className="row" style={{marginTop:8}}>
+        <button className="primary" onClick={exportEnvelope}>Send to first signer</button>
+        <button onClick={discardEnvelope}>Discard</button>
+      </div>
+      <div className="hint" style={{marginTop:4}}>
+        Downloads the PDF, with what you placed, and its envelope file; send both to {envelope.signers[0]?.name ?? 'the first signer'}.
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+import React from 'react'
+import { OutputProtection, useAppStore } from '../store/appStore'
+
+const PROTECTION_LABELS: Record<OutputProtection, string> = {
+  none: 'No password',
+  original: 'Same passwords as the original',
+  new: 'New password'
+}
+
+export const ExportPanel: React.FC = () => {
+  const {
+    hasDoc, saveMode, setSaveMode, auditTrail, setAuditTrail, existingSignatures,
+    isEncrypted, outputProtection, setOutputProtection, outputPasswords, setOutputPasswords,
+    formFields, flattenForm, setFlattenForm, pageLayout, ownerPasswordUnknown
+  } = useAppStore()
+  const existingSignatureCount = existingSignatures.length
+  if (!hasDoc) return null
+
+  // Encrypted input or output, and changed pages, always need a full rewrite
+  const canAppend = !isEncrypted && outputProtection === 'none' && !pageLayout
+  const protections: OutputProtection[] = isEncrypted ? ['none', 'original', 'new'] : ['none', 'new']
+  const hasFillableFields = formFields.some(f => f.kind !== 'signature' && f.kind !== 'button')
+
+  return (
+    <div style={{marginTop:8, fontSize:12}}>
+      <label style={{display:'flex', alignItems:'center'}}>
+        <input
+          type="checkbox"
+          checked={canAppend && saveMode === 'incremental'}
+          disabled={!canAppend}
+          onChange={(e) => setSaveMode(e.target.checked ? 'incremental' : 'rewrite')}
+          style={{marginRight:6}}
+        />
+        Append changes (keep original bytes intact)
+      </label>
+      <label style={{display:'flex', alignItems:'center', marginTop:4}}>
+        <input
+          type="checkbox"
+          checked={auditTrail}
+          onChange={(e) => setAuditTrail(e.target.checked)}
+          style={{marginRight:6}}
+        />
+        Add audit trail page (+ JSON record)
+      </label>
+      {hasFillableFields && (
+        <label style={{display:'flex', alignItems:'center', marginTop:4}}>
+          <input
+            type="checkbox"
+            checked={flattenForm}
+            onChange={(e) => setFlattenForm(e.target.checked)}
+            style={{marginRight:6}}
+          />
+          Flatten form fields (no longer fillable)
+        </label>
+      )}
+      <div style={{marginTop:8}}>Output protection</div>
+      <select
+        value={outputProtection}
+        onChange={(e) => setOutputProtection(e.target.value as OutputProtection)}
+        style={{marginTop:4, width:'100%'}}
+      >
+        {protections.map(p => <option key={p} value={p}>{PROTECTION_LABELS[p]}</option>)}
+      </select>
+      {outputProtection === 'new' && (
+        <div style={{marginTop:4}}>
+          <input
+            type="password"
+            placeholder="Password to open"
+            value={outputPasswords.userPassword}
+            onChange={(e) => setOutputPasswords({ ...outputPasswords, userPassword: e.target.value })}
+            autoComplete="new-password"
+            style={{width:'100%', boxSizing:'border-box'}}
+          />
+          <input
+            type="password"
+            placeholder="Owner password (optional)"
+            value={outputPasswords.ownerPassword}
+            onChange={(e) => setOutputPasswords({ ...outputPasswords, ownerPassword: e.target.value })}
+            autoComplete="new-password"
+            style={{width:'100%', boxSizing:'border-box', marginTop:4}}
+          />
+        </div>
+      )}
+      {isEncrypted && ownerPasswordUnknown && outputProtection === 'original' && (
+        <div style={{marginTop:4}}>
+          <input
+            type="password"
+            placeholder="Owner password"
+            value={outputPasswords.ownerPassword}
+            onChange={(e) => setOutputPasswords({ ...outputPasswords, ownerPassword: e.target.value })}
+            autoComplete="new-password"
+            style={{width:'100%', boxSizing:'border-box'}}
+          />
+          <div className="hint" style={{marginTop:4}}>
+            This PDF's owner password, which lifts its restrictions on editing, printing or copying, can't be recovered with the password it opened with. Choose one to keep the restrictions.
+          </div>
+        </div>
+      )}
+      {isEncrypted && outputProtection === 'none' && (
+        <div style={{marginTop:6, padding:8, background:'#fffbeb', borderRadius:4, color:'#92400e'}}>
+          ⚠ The exported copy will not be password-protected.
+        </div>
+      )}
+      {existingSignatureCount > 0 && !(canAppend && saveMode === 'incremental') && (
+        <div style={{marginTop:6, padding:8, background:'#fef2f2', borderRadius:4, color:'#b91c1c'}}>
+          ⚠ This PDF contains {existingSignatureCount} digital signature{existingSignatureCount !== 1 ? 's' : ''}.
+          Rewriting the file will invalidate {existingSignatureCount !== 1 ? 'them' : 'it'}.
+        </div>
+      )}
+    </div>
+  )
+}
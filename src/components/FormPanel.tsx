@@ -0,0 +1,63 @@
+import React from 'react'
+import { useAppStore } from '../store/appStore'
+import { FormField, FormValue } from '../modules/pdf/forms'
+
+const FieldEditor: React.FC<{ field: FormField, value: FormValue, onChange: (value: FormValue) => void }> = ({ field, value, onChange }) => {
+  const inputStyle = { width:'100%', boxSizing:'border-box' as const, marginTop:2 }
+  switch (field.kind) {
+    case 'text':
+      return field.multiline ? (
+        <textarea value={String(value)} maxLength={field.maxLength} disabled={field.readOnly} rows={3}
+          onChange={(e) => onChange(e.target.value)} style={inputStyle} />
+      ) : (
+        <input value={String(value)} maxLength={field.maxLength} disabled={field.readOnly}
+          onChange={(e) => onChange(e.target.value)} style={inputStyle} />
+      )
+    case 'checkbox':
+      return (
+        <input type="checkbox" checked={value === true} disabled={field.readOnly}
+          onChange={(e) => onChange(e.target.checked)} />
+      )
+    case 'radio':
+    case 'dropdown':
+      return (
+        <select value={String(value)} disabled={field.readOnly} onChange={(e) => onChange(e.target.value)} style={inputStyle}>
+          <option value="">—</option>
+          {Array.from(new Set(field.options)).map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      )
+    case 'signature':
+      return <div style={{color: value ? '#166534' : '#6b7280'}}>{value ? '✓ Signed' : 'Unsigned signature field'}</div>
+    case 'button':
+      return null
+  }
+}
+
+export const FormPanel: React.FC = () => {
+  const { hasDoc, formFields: allFields, formValues, setFormValue } = useAppStore()
+  // Push buttons have nothing to fill in
+  const formFields = allFields.filter(f => f.kind !== 'button')
+  if (!hasDoc || formFields.length === 0) return null
+
+  return (
+    <div style={{marginTop:16}}>
+      <div><strong>Form fields</strong> <span className="hint">({formFields.length})</span></div>
+      <div style={{marginTop:8, maxHeight:320, overflowY:'auto', fontSize:12}}>
+        {formFields.map(field => (
+          <label key={field.name} style={{display:'block', marginBottom:8}}>
+            <div style={{wordBreak:'break-word'}}>
+              {field.name}
+              {field.required && <span style={{color:'#b91c1c'}}> *</span>}
+              {field.readOnly && <span className="hint"> (read-only)</span>}
+            </div>
+            <FieldEditor
+              field={field}
+              value={formValues[field.name] ?? field.value}
+              onChange={(value) => setFormValue(field.name, value)}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useAppStore } from '../store/appStore'
+import { createPageRenderer } from '../modules/pdf/render'
+import { openSignatureTargets } from '../modules/pdf/forms'
+import { openEnvelopeFields } from '../modules/envelope/envelope'
+
+// Width of the widest page's thumbnail, in CSS pixels; other pages are scaled alike
+const THUMB_WIDTH = 100
+const THUMB_BUDGET_BYTES = 32 * 1024 * 1024
+
+/**
+ * Page thumbnails with placement counts and signature fields still to sign; click one to scroll to its page.
+ * Pages can be turned, deleted, dragged into another order, followed by a blank page, or joined by another PDF's.
+ */
+export const PageNavigator: React.FC = () => {
+  const {
+    pdfDocument, pageSizes, placements, formFields, currentPage, goToPage, envelope, envelopeSignerId, envelopeReceived,
+    arrangingPages, rotatePage, deletePage, movePage, insertBlankPage, mergePdf
+  } = useAppStore()
+  const listRef = useRef<HTMLElement>(null)
+  const mergeInput = useRef<HTMLInputElement>(null)
+  const [dragged, setDragged] = useState<number | null>(null)
+  const [dropTarget, setDropTarget] = useState<number | null>(null)
+  // Thumbnail canvases are mounted into these, outside of React's tree
+  const holdersRef = useRef<(HTMLDivElement | null)[]>([])
+  const scale = pageSizes.length ? THUMB_WIDTH / Math.max(...pageSizes.map(s => s.width)) : 0
+
+  // Render thumbnails as they scroll into view, like the pages in the viewer
+  useEffect(()=>{
+    const list = listRef.current
+    if (!pdfDocument || !list || !scale) return
+    const renderer = createPageRenderer(pdfDocument, scale * (window.devicePixelRatio || 1), (pageIndex, canvas) => {
+      holdersRef.current[pageIndex]?.appendChild(canvas)
+    }, THUMB_BUDGET_BYTES)
+    const observer = new IntersectionObserver(entries => entries.forEach(entry => {
+      const pageIndex = Number((entry.target as HTMLElement).dataset.pageIndex)
+      if (entry.isIntersecting) renderer.show(pageIndex)
+      else renderer.hide(pageIndex)
+    }), { root: list, rootMargin: '100%' })
+    holdersRef.current.forEach(holder => holder && observer.observe(holder))
+    return () => {
+      observer.disconnect()
+      renderer.destroy()
+    }
+  }, [pdfDocument, scale])
+
+  // Keep the current page's thumbnail in view while the viewer scrolls
+  useEffect(()=>{
+    holdersRef.current[currentPage]?.scrollIntoView({ block: 'nearest', inline: 'nearest' })
+  }, [currentPage])
+
+  if (!pdfDocument) return null
+
+  const placed = pageSizes.map(() => 0)
+  placements.forEach(p => { placed[p.pageIndex]++ })
+  const toSign = pageSizes.map(() => 0)
+  const required = pageSizes.map(() => false)
+  openSignatureTargets(formFields, placements).forEach(field => field.widgets.forEach(widget => {
+    toSign[widget.pageIndex]++
+    if (field.required) required[widget.pageIndex] = true
+  }))
+  // In a received envelope, the signer's own fields must all be filled
+  if (envelope && envelopeReceived && envelopeSignerId) {
+    openEnvelopeFields(envelope, envelopeSignerId, placements).forEach(field => {
+      toSign[field.pageIndex]++
+      required[field.pageIndex] = true
+    })
+  }
+
+  // A received envelope's fields are fixed to its pages
+  const editable = !envelopeReceived
+
+  const handleMerge = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) mergePdf(file)
+    e.target.value = ''
+  }
+
+  const endDrag = () => {
+    setDragged(null)
+    setDropTarget(null)
+  }
+
+  return (
+    <nav className="page-nav" ref={listRef} aria-label="Pages">
+      {pageSizes.map((size, pageIndex) => {
+        const notes = [
+          placed[pageIndex] ? `${placed[pageIndex]} item(s) placed` : '',
+          toSign[pageIndex] ? `${toSign[pageIndex]} ${required[pageIndex] ? 'required ' : ''}signature field(s) to sign` : ''
+        ].filter(Boolean)
+        return (
+          // Dropping a page on another puts it in that one's place
+          <div
+            key={pageIndex} className={`page-thumb-item${dropTarget === pageIndex && dragged !== pageIndex ? ' drop-target' : ''}`}
+            draggable={editable && !arrangingPages}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move'
+              e.dataTransfer.setData('text/plain', String(pageIndex))
+              setDragged(pageIndex)
+            }}
+            onDragOver={(e) => {
+              if (dragged === null) return
+              e.preventDefault()
+              setDropTarget(pageIndex)
+            }}
+            onDrop={(e) => {
+              e.preventDefault()
+              if (dragged !== null) movePage(dragged, pageIndex)
+              endDrag()
+            }}
+            onDragEnd={endDrag}
+          >
+            <button
+              className={`page-thumb${pageIndex === currentPage ? ' current' : ''}`}
+              title={[`Page ${pageIndex + 1}`, ...notes].join('\n')} onClick={() => goToPage(pageIndex)}
+            >
+              <div className="page-thumb-image" style={{ width: size.width * scale, height: size.height * scale }}>
+                <div ref={el => { holdersRef.current[pageIndex] = el }} data-page-index={pageIndex} style={{ width:'100%', height:'100%' }} />
+                {toSign[pageIndex] > 0 && <span className="page-badge to-sign">✍ {toSign[pageIndex]}</span>}
+                {placed[pageIndex] > 0 && <span className="page-badge">{placed[pageIndex]}</span>}
+              </div>
+              <span>{pageIndex + 1}</span>
+            </button>
+            {editable && (
+              <div className="page-thumb-actions">
+                <button disabled={arrangingPages} onClick={() => rotatePage(pageIndex)} title="Rotate clockwise">⟳</button>
+                <button disabled={arrangingPages} onClick={() => insertBlankPage(pageIndex)} title="Insert a blank page after this one">＋</button>
+                <button disabled={arrangingPages || pageSizes.length === 1} onClick={() => deletePage(pageIndex)} title="Delete page">🗑</button>
+              </div>
+            )}
+          </div>
+        )
+      })}
+      {editable && (
+        <>
+          <button className="page-nav-merge" disabled={arrangingPages} onClick={() => mergeInput.current?.click()} title="Add another PDF's pages at the end">
+            {arrangingPages ? 'Updating…' : '＋ Merge PDF'}
+          </button>
+          <input ref={mergeInput} type="file" accept="application/pdf" onChange={handleMerge} style={{display:'none'}} />
+        </>
+      )}
+    </nav>
+  )
+}
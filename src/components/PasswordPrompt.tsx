@@ -0,0 +1,36 @@
+import React, { useState } from 'react'
+import { useAppStore } from '../store/appStore'
+
+export const PasswordPrompt: React.FC = () => {
+  const [password, setPassword] = useState('')
+  const { passwordRequest, submitPassword } = useAppStore()
+  if (!passwordRequest) return null
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    submitPassword(password)
+    setPassword('')
+  }
+
+  return (
+    <form onSubmit={handleSubmit} style={{marginTop:12, padding:8, background:'#fffbeb', borderRadius:4, fontSize:12}}>
+      <div><strong>🔒 This PDF is password-protected</strong></div>
+      {passwordRequest === 'incorrect' && (
+        <div style={{color:'#b91c1c', marginTop:4}}>Incorrect password. Please try again.</div>
+      )}
+      <div className="row" style={{marginTop:8}}>
+        <input
+          type="password"
+          placeholder="Document password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="off"
+          autoFocus
+          style={{flex:1, minWidth:0}}
+        />
+        <button type="submit" className="primary">Open</button>
+      </div>
+      <div className="hint" style={{marginTop:4}}>The password is used in this browser only and never uploaded.</div>
+    </form>
+  )
+}
@@ -1,14 +1,113 @@
-import React, { useEffect, useRef } from 'react'
-import { useAppStore } from '../store/appStore'
-import { renderPdfToCanvases } from '../modules/pdf/render'
+import React, { useEffect, useRef, useState } from 'react'
+import { Placement, currentPlacementContent, useAppStore } from '../store/appStore'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { PageRenderer, createPageRenderer, loadPageLayouts, openPdf, passwordRequestFor, renderTextLayer } from '../modules/pdf/render'
+import { displaySize, fitPercentRect } from '../modules/pdf/geometry'
+import { defaultBoxPercentSize, defaultPercentSize } from '../modules/pdf/placementSize'
+import { openEnvelopeFields } from '../modules/envelope/envelope'
+import { isSignatureTarget, openSignatureTargets } from '../modules/pdf/forms'
+import { CSS_UNITS, MAX_ZOOM, MIN_ZOOM, ZOOM_STEPS, Zoom, clampZoom, resolveZoom, zoomIn, zoomOut } from '../modules/pdf/zoom'
+import { SearchBar } from './SearchBar'
+import { signatureFontFamily } from '../modules/fonts/signatureFonts'
+import { MARK_PATHS, MARK_STROKE, STAMP_LAYOUT, sanitizeStampText, stampLines } from '../modules/write/stamps'
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+// Padding of the scrolling page area, and the margin around each page (index.css .page-wrap)
+const VIEWER_PADDING = 12
+const PAGE_MARGIN = 12
+
+// Room the pages have in the scrolling area, for the fit zoom modes
+const availableSize = (container: HTMLElement) => ({
+  width: container.clientWidth - 2 * VIEWER_PADDING,
+  height: container.clientHeight - 2 * VIEWER_PADDING - 2 * PAGE_MARGIN
+})
+
+const ZOOM_MODES = { 'auto': 'Automatic', 'fit-width': 'Fit width', 'fit-page': 'Fit page' }
+const toolbarButtonStyle: React.CSSProperties = { padding:'4px 10px', minHeight:0 }
+
+// Box of the given size centred on a point, kept within the page; all in display percentages
+const boxAround = (x: number, y: number, w: number, h: number) => ({
+  x: Math.max(0, Math.min(x - w / 2, 100 - w)), y: Math.max(0, Math.min(y - h / 2, 100 - h)), w, h
+})
+
+// Overlay element showing a placement's content at the given display size; `scale` is CSS pixels per user space unit
+const placementElement = (p: Placement, width: number, height: number, scale: number): HTMLElement => {
+  if (p.kind === 'signature' || p.kind === 'initials') {
+    const img = document.createElement('img')
+    img.src = p.imageDataUrl
+    img.draggable = false
+    return img
+  }
+  const el = document.createElement('div')
+  if (p.kind === 'mark') {
+    const svg = document.createElementNS(SVG_NS, 'svg')
+    svg.setAttribute('viewBox', '0 0 1 1')
+    svg.setAttribute('preserveAspectRatio', 'none')
+    svg.setAttribute('width', '100%')
+    svg.setAttribute('height', '100%')
+    for (const path of MARK_PATHS[p.mark]) {
+      const line = document.createElementNS(SVG_NS, 'polyline')
+      line.setAttribute('points', path.map(point => point.join(',')).join(' '))
+      line.setAttribute('fill', 'none')
+      line.setAttribute('stroke', p.color)
+      line.setAttribute('stroke-width', String(MARK_STROKE * Math.min(width, height)))
+      line.setAttribute('stroke-linecap', 'round')
+      line.setAttribute('stroke-linejoin', 'round')
+      line.setAttribute('vector-effect', 'non-scaling-stroke')
+      svg.appendChild(line)
+    }
+    el.appendChild(svg)
+    return el
+  }
+  // Text and dates: the same lines, size and padding as the export, clipped to the box
+  const text = document.createElement('div')
+  text.className = 'stamp-text'
+  text.dir = 'auto'
+  text.textContent = stampLines(p, new Date()).join('\n')
+  text.style.fontFamily = signatureFontFamily(p.style.font)
+  text.style.fontSize = p.style.size * scale + 'px'
+  text.style.lineHeight = String(STAMP_LAYOUT.lineHeight)
+  text.style.padding = STAMP_LAYOUT.padding * scale + 'px'
+  text.style.color = p.style.color
+  el.appendChild(text)
+  return el
+}
 
 export const PdfViewer: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null)
-  const { pdfFile, setPageSizes, setPages, pages, placements, addPlacement, currentSignature, updatePlacement, removePlacement } = useAppStore()
+  const {
+    pdfFile, arrangedFile, pdfPassword, requestPassword, setDocument, placements, addPlacement, currentSignature, updatePlacement, removePlacement,
+    editPlacement, beginPlacementGesture, endPlacementGesture, undo, redo, undoStack, redoStack, formFields, formValues, pageSizes, pageGeometries, currentStamp, placing, hasDoc, pageRequest, setCurrentPage,
+    searchHits, currentHit, envelope, envelopeSignerId, envelopeReceived
+  } = useAppStore()
+  const armed = placing === 'field' ? !!envelopeSignerId : placing === 'stamp' ? !!currentStamp : !!currentSignature
+  const rendererRef = useRef<PageRenderer | null>(null)
+  const [zoom, setZoom] = useState<Zoom>('auto')
+  const [viewSize, setViewSize] = useState({ width: 0, height: 0 })
+  const [pixelRatio, setPixelRatio] = useState(window.devicePixelRatio || 1)
+  const zoomFactor = resolveZoom(zoom, pageSizes, viewSize)
+  // For the event handlers and the render effect, which outlive a render
+  const zoomRef = useRef(zoom)
+  zoomRef.current = zoom
+  const zoomFactorRef = useRef(zoomFactor)
+  zoomFactorRef.current = zoomFactor
+  // Scroll position to keep under the pointer while zooming with the wheel or a pinch
+  const zoomAnchorRef = useRef<{ x: number, y: number, u: number, v: number } | null>(null)
+  // Ends the drag, resize or pinch in progress, so that its undo step is recorded and its listeners removed
+  const endGestureRef = useRef<(() => void) | null>(null)
   
-  // Handle keyboard deletion
+  // Handle keyboard deletion, and undo (Ctrl+Z) / redo (Ctrl+Shift+Z or Ctrl+Y)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Not while typing, e.g. in the search box, where the keys edit the text
+      if ((e.target as HTMLElement).closest('input, textarea, select')) return
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && ['z', 'y'].includes(e.key.toLowerCase())) {
+        e.preventDefault()
+        if (e.key.toLowerCase() === 'y' || e.shiftKey) redo()
+        else undo()
+        return
+      }
       if (e.key === 'Delete' || e.key === 'Backspace') {
         const selected = document.querySelector('.sig-img.selected') as HTMLElement
         if (selected) {
@@ -23,57 +122,133 @@ export const PdfViewer: React.FC = () => {
     return () => document.removeEventListener('keydown', handleKeyDown)
   }, [])
 
+  // A gesture cut short by unmounting never sees its mouseup or touchend
+  useEffect(() => () => endGestureRef.current?.(), [])
+
+  // Lay out a placeholder per page, sized from its viewport, and render pages as they scroll into view
   useEffect(()=>{
-    (async () => {
-      if (!containerRef.current) return
-      
-      if (!pdfFile) {
-        // Clear the container when no PDF is loaded
-        containerRef.current.innerHTML = ''
+    const container = containerRef.current
+    if (!container) return
+    const scrollTop = container.scrollTop
+    container.innerHTML = ''
+    // After page operations, their arranged copy of the file
+    const viewFile = arrangedFile ?? pdfFile
+    if (!viewFile) return
+    let cancelled = false
+    let pdf: PDFDocumentProxy | undefined
+    let renderer: PageRenderer | undefined
+    let observer: IntersectionObserver | undefined
+
+    ;(async () => {
+      let layouts
+      try {
+        pdf = await openPdf(viewFile, pdfPassword)
+        layouts = await loadPageLayouts(pdf)
+      } catch (error) {
+        if (cancelled) return
+        const request = passwordRequestFor(error)
+        if (request) {
+          requestPassword(request)
+          return
+        }
+        console.error('PDF render error:', error)
+        alert('Failed to open PDF. The file may be corrupted or unsupported.')
         return
       }
-      
-      const { canvases, sizes } = await renderPdfToCanvases(pdfFile)
-      setPages(canvases, sizes)
-      containerRef.current.innerHTML = ''
-      canvases.forEach((c, pageIndex)=>{
+      if (cancelled) return
+      const { sizes, geometries } = layouts
+      setDocument(pdf, sizes, geometries)
+      const factor = resolveZoom(zoomRef.current, sizes, availableSize(container))
+
+      const wraps: HTMLElement[] = []
+      // The canvas goes under the overlays of its page
+      renderer = createPageRenderer(pdf, factor * CSS_UNITS * (window.devicePixelRatio || 1), (pageIndex, canvas) => {
+        canvas.className = 'pdf-page'
+        wraps[pageIndex].prepend(canvas)
+      })
+      rendererRef.current = renderer
+      // Text layers are laid out once per page, the first time it comes into view, and kept
+      const textLayers = new Set<number>()
+      const showTextLayer = (pageIndex: number) => {
+        if (textLayers.has(pageIndex)) return
+        textLayers.add(pageIndex)
+        const layer = document.createElement('div')
+        layer.className = 'textLayer'
+        wraps[pageIndex].insertBefore(layer, wraps[pageIndex].querySelector('.sig-img, .sig-target, .form-value, .search-hit'))
+        renderTextLayer(pdf!, pageIndex, layer).catch(error => {
+          if (!cancelled) console.error(`Page ${pageIndex + 1} text layer error:`, error)
+        })
+      }
+      observer = new IntersectionObserver(entries => entries.forEach(entry => {
+        const pageIndex = Number((entry.target as HTMLElement).dataset.pageIndex)
+        if (entry.isIntersecting) {
+          renderer!.show(pageIndex)
+          showTextLayer(pageIndex)
+        } else {
+          renderer!.hide(pageIndex)
+        }
+      }), { root: container, rootMargin: '50% 0px' })
+
+      sizes.forEach((size, pageIndex)=>{
         const wrap = document.createElement('div')
         wrap.className = 'page-wrap'
-        c.className = 'pdf-page'
-        wrap.style.cursor = currentSignature ? 'crosshair' : 'default'
-        wrap.appendChild(c)
+        wrap.dataset.pageIndex = String(pageIndex)
+        wrap.style.width = size.width * factor * CSS_UNITS + 'px'
+        wrap.style.height = size.height * factor * CSS_UNITS + 'px'
+        wrap.style.setProperty('--scale-factor', String(factor * CSS_UNITS))
+        wrap.classList.toggle('placing', !!currentPlacementContent(useAppStore.getState()) || useAppStore.getState().placing === 'field')
+        wraps.push(wrap)
         
-        // Set wrapper size to match displayed canvas size after CSS scaling
-        setTimeout(() => {
-          const canvasRect = c.getBoundingClientRect()
-          wrap.style.width = canvasRect.width + 'px'
-          wrap.style.height = canvasRect.height + 'px'
-        }, 0)
         // click-to-place or deselect (with percentage-based positioning)
         const handlePlacement = (clientX: number, clientY: number) => {
-          if (currentSignature) {
-            const canvasRect = c.getBoundingClientRect()
+          const state = useAppStore.getState()
+          const content = currentPlacementContent(state)
+          if (state.placing === 'field' && state.envelopeSignerId) {
+            // Preparing an envelope: add a field for the selected signer
+            const canvasRect = wrap.getBoundingClientRect()
+            const { w, h } = defaultBoxPercentSize(state.envelopeFieldKind, geometries[pageIndex])
+            state.addEnvelopeField(pageIndex, boxAround(
+              ((clientX - canvasRect.left) / canvasRect.width) * 100, ((clientY - canvasRect.top) / canvasRect.height) * 100, w, h
+            ))
+          } else if (content) {
+            const canvasRect = wrap.getBoundingClientRect()
             const x = clientX - canvasRect.left
             const y = clientY - canvasRect.top
             
             // Convert to percentage coordinates (0-100)
             const percentX = (x / canvasRect.width) * 100
             const percentY = (y / canvasRect.height) * 100
+            const contains = (r: { x: number, y: number, w: number, h: number }) =>
+              percentX >= r.x && percentX <= r.x + r.w && percentY >= r.y && percentY <= r.y + r.h
+
+            // Clicking a signature field fills its widget, keeping the signature's aspect ratio
+            const fields = content.kind === 'signature' ? state.formFields.filter(isSignatureTarget) : []
+            const target = fields.flatMap(field =>
+              field.widgets
+                .filter(({ pageIndex: i, rect: r }) => i === pageIndex && contains(r))
+                .map(widget => ({ field, widget }))
+            )[0]
+            // Likewise the current signer's envelope fields, with a signature or initials
+            const envelopeTarget = state.envelope && state.envelopeReceived && state.envelopeSignerId && 'imageDataUrl' in content
+              ? openEnvelopeFields(state.envelope, state.envelopeSignerId, state.placements).find(f => f.pageIndex === pageIndex && contains(f.rect))
+              : undefined
+            const snapRect = target?.widget.rect ?? envelopeTarget?.rect
+            if (snapRect && 'imageDataUrl' in content) {
+              const image = new Image()
+              image.onload = () => {
+                const rect = fitPercentRect(snapRect, image.naturalWidth / image.naturalHeight, geometries[pageIndex])
+                addPlacement(pageIndex, rect, content, target?.field.name, target ? undefined : envelopeTarget?.id)
+              }
+              image.src = content.imageDataUrl
+              return
+            }
             
-            // Default signature size as percentage of canvas
-            const percentW = (220 / canvasRect.width) * 100  // ~15-20% of typical canvas width
-            const percentH = (60 / canvasRect.height) * 100   // ~5-8% of typical canvas height
-            
-            // Center signature on click point and clamp within bounds
-            const clampedX = Math.max(0, Math.min(percentX - percentW/2, 100 - percentW))
-            const clampedY = Math.max(0, Math.min(percentY - percentH/2, 100 - percentH))
-            
-            console.log(`Percentage Position Debug:`)
-            console.log(`  Click: (${x.toFixed(1)}, ${y.toFixed(1)}) in ${canvasRect.width.toFixed(1)}x${canvasRect.height.toFixed(1)} canvas`)
-            console.log(`  Percent: (${percentX.toFixed(1)}%, ${percentY.toFixed(1)}%) -> Clamped: (${clampedX.toFixed(1)}%, ${clampedY.toFixed(1)}%)`)
-            console.log(`  Size: ${percentW.toFixed(1)}% x ${percentH.toFixed(1)}%`)
-            
-            addPlacement(pageIndex, { x: clampedX, y: clampedY, w: percentW, h: percentH }, currentSignature)
+            // Default size as percentage of the displayed (rotated) page
+            defaultPercentSize(content, geometries[pageIndex]).then(({ w: percentW, h: percentH }) => {
+              // Center on click point and clamp within bounds
+              const box = boxAround(percentX, percentY, percentW, percentH)
+              addPlacement(pageIndex, box, content)
+            })
           } else {
             // Deselect all signatures and hide handles when clicking on empty area
             document.querySelectorAll('.sig-img').forEach(el => el.classList.remove('selected'))
@@ -102,6 +277,8 @@ export const PdfViewer: React.FC = () => {
         }, { passive: true })
         
         wrap.addEventListener('touchmove', (ev) => {
+          // A second finger means a pinch zoom, not a tap
+          if (ev.touches.length > 1) hasMoved = true
           if (ev.touches.length === 1) {
             const touch = ev.touches[0]
             const deltaX = Math.abs(touch.clientX - touchStartX)
@@ -132,47 +309,220 @@ export const PdfViewer: React.FC = () => {
             }
           }
         })
-        containerRef.current!.appendChild(wrap)
+        container.appendChild(wrap)
+        observer!.observe(wrap)
       })
+      // Page operations lay the pages out again; stay where the user was
+      if (arrangedFile) container.scrollTop = scrollTop
     })()
-  }, [pdfFile, currentSignature])
 
-  // Render placements as absolutely positioned <img> overlays
+    return () => {
+      cancelled = true
+      rendererRef.current = null
+      observer?.disconnect()
+      renderer?.destroy()
+      pdf?.destroy()
+    }
+  }, [pdfFile, arrangedFile, pdfPassword])
+
+  // Track the room the pages have, for the fit zoom modes
+  useEffect(()=>{
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(() => setViewSize(availableSize(container)))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  // Moving the window to a screen with another pixel density changes the resolution pages need
+  useEffect(()=>{
+    const media = window.matchMedia(`(resolution: ${pixelRatio}dppx)`)
+    const update = () => setPixelRatio(window.devicePixelRatio || 1)
+    media.addEventListener('change', update)
+    return () => media.removeEventListener('change', update)
+  }, [pixelRatio])
+
+  // Resize the pages right away; re-render them at the new resolution once zooming settles
+  useEffect(()=>{
+    const container = containerRef.current
+    if (!container) return
+    container.querySelectorAll<HTMLElement>('.page-wrap').forEach(wrap => {
+      const size = pageSizes[Number(wrap.dataset.pageIndex)]
+      if (!size) return
+      wrap.style.width = size.width * zoomFactor * CSS_UNITS + 'px'
+      wrap.style.height = size.height * zoomFactor * CSS_UNITS + 'px'
+      wrap.style.setProperty('--scale-factor', String(zoomFactor * CSS_UNITS))
+    })
+    const anchor = zoomAnchorRef.current
+    if (anchor) {
+      container.scrollLeft = anchor.u * container.scrollWidth - anchor.x
+      container.scrollTop = anchor.v * container.scrollHeight - anchor.y
+      zoomAnchorRef.current = null
+    }
+    const timer = setTimeout(() => rendererRef.current?.setScale(zoomFactor * CSS_UNITS * pixelRatio), 150)
+    return () => clearTimeout(timer)
+  }, [zoomFactor, pageSizes, pixelRatio])
+
+  // Ctrl+wheel (and trackpad pinch, which browsers report as one) and two-finger pinch zoom around the pointer
+  useEffect(()=>{
+    const container = containerRef.current
+    if (!container) return
+    const zoomAt = (factor: number, clientX: number, clientY: number) => {
+      const next = clampZoom(zoomFactorRef.current * factor)
+      if (next === zoomFactorRef.current) return
+      const bounds = container.getBoundingClientRect()
+      const x = clientX - bounds.left
+      const y = clientY - bounds.top
+      zoomAnchorRef.current = {
+        x, y, u: (container.scrollLeft + x) / container.scrollWidth, v: (container.scrollTop + y) / container.scrollHeight
+      }
+      zoomFactorRef.current = next
+      setZoom(next)
+    }
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey) return
+      e.preventDefault()
+      zoomAt(Math.pow(1.002, -e.deltaY * (e.deltaMode === 1 ? 20 : 1)), e.clientX, e.clientY)
+    }
+
+    // Pinching on a placement resizes it instead
+    let pinchDistance = 0
+    const distance = (touches: TouchList) =>
+      Math.hypot(touches[1].clientX - touches[0].clientX, touches[1].clientY - touches[0].clientY)
+    const handleTouchStart = (e: TouchEvent) => {
+      const onPlacement = (e.target as HTMLElement).closest('.sig-img, .sig-handle')
+      pinchDistance = e.touches.length === 2 && !onPlacement ? distance(e.touches) : 0
+    }
+    const handleTouchMove = (e: TouchEvent) => {
+      if (e.touches.length !== 2 || !pinchDistance) return
+      e.preventDefault()
+      const current = distance(e.touches)
+      zoomAt(current / pinchDistance, (e.touches[0].clientX + e.touches[1].clientX) / 2, (e.touches[0].clientY + e.touches[1].clientY) / 2)
+      pinchDistance = current
+    }
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinchDistance = 0
+    }
+
+    container.addEventListener('wheel', handleWheel, { passive: false })
+    container.addEventListener('touchstart', handleTouchStart, { passive: true })
+    container.addEventListener('touchmove', handleTouchMove, { passive: false })
+    container.addEventListener('touchend', handleTouchEnd)
+    return () => {
+      container.removeEventListener('wheel', handleWheel)
+      container.removeEventListener('touchstart', handleTouchStart)
+      container.removeEventListener('touchmove', handleTouchMove)
+      container.removeEventListener('touchend', handleTouchEnd)
+    }
+  }, [])
+
+  // Report the page in view: the first one reaching past a third of the way down the viewer
+  useEffect(()=>{
+    const container = containerRef.current
+    if (!container) return
+    let frame = 0
+    const update = () => {
+      frame = 0
+      const line = container.getBoundingClientRect().top + container.clientHeight / 3
+      const wraps = container.querySelectorAll<HTMLElement>('.page-wrap')
+      for (const wrap of wraps) {
+        if (wrap.getBoundingClientRect().bottom > line) {
+          setCurrentPage(Number(wrap.dataset.pageIndex))
+          return
+        }
+      }
+    }
+    const handleScroll = () => {
+      if (!frame) frame = requestAnimationFrame(update)
+    }
+    container.addEventListener('scroll', handleScroll, { passive: true })
+    return () => {
+      container.removeEventListener('scroll', handleScroll)
+      cancelAnimationFrame(frame)
+    }
+  }, [])
+
+  // Scroll to a page picked in the page navigator
+  useEffect(()=>{
+    const container = containerRef.current
+    if (!container || !pageRequest) return
+    const wrap = container.querySelector<HTMLElement>(`.page-wrap[data-page-index="${pageRequest.pageIndex}"]`)
+    if (!wrap) return
+    container.scrollTop += wrap.getBoundingClientRect().top - container.getBoundingClientRect().top - PAGE_MARGIN
+  }, [pageRequest])
+
+  // Crosshair, and no text selection, while there is something to place; the click handler reads the current content itself
+  useEffect(()=>{
+    if (!containerRef.current) return
+    containerRef.current.querySelectorAll<HTMLElement>('.page-wrap').forEach(wrap => {
+      wrap.classList.toggle('placing', armed)
+    })
+  }, [pageGeometries, armed])
+
+  // Highlight search hits, under the placements
+  useEffect(()=>{
+    if (!containerRef.current) return
+    const wraps = Array.from(containerRef.current.querySelectorAll('.page-wrap')) as HTMLElement[]
+    wraps.forEach(wrap => Array.from(wrap.querySelectorAll('.search-hit')).forEach(el => el.remove()))
+    searchHits.forEach((hit, i) => {
+      const wrap = wraps[hit.pageIndex]
+      if (!wrap) return
+      hit.rects.forEach(rect => {
+        const el = document.createElement('div')
+        el.className = i === currentHit ? 'search-hit current' : 'search-hit'
+        el.style.left = rect.x + '%'
+        el.style.top = rect.y + '%'
+        el.style.width = rect.w + '%'
+        el.style.height = rect.h + '%'
+        wrap.insertBefore(el, wrap.querySelector('.sig-img'))
+      })
+    })
+  }, [pageGeometries, searchHits, currentHit])
+
+  // Bring the current hit into view
+  useEffect(()=>{
+    containerRef.current?.querySelector('.search-hit.current')?.scrollIntoView({ block: 'center', inline: 'nearest' })
+  }, [searchHits, currentHit])
+
+  // Render placements as absolutely positioned overlays: images for signatures and initials, HTML for stamps
   useEffect(()=>{
     if (!containerRef.current) return
     const wraps = Array.from(containerRef.current.querySelectorAll('.page-wrap')) as HTMLElement[]
     wraps.forEach((wrap, pageIndex)=>{
       // remove existing overlay imgs and handles
-      Array.from(wrap.querySelectorAll('img.sig-img')).forEach(el => el.remove())
+      Array.from(wrap.querySelectorAll('.sig-img')).forEach(el => el.remove())
       Array.from(wrap.querySelectorAll('.sig-handle')).forEach(el => el.remove())
       placements.filter(p => p.pageIndex === pageIndex).forEach(p => {
-        const img = document.createElement('img')
         const handle = document.createElement('div')
         
         // Convert percentage coordinates to current display pixels
-        const canvas = wrap.querySelector('canvas') as HTMLCanvasElement
-        const canvasRect = canvas.getBoundingClientRect()
+        // The page box, whether or not its canvas is rendered right now
+        const canvasRect = wrap.getBoundingClientRect()
         
         const displayX = (p.rect.x / 100) * canvasRect.width
         const displayY = (p.rect.y / 100) * canvasRect.height
         const displayW = (p.rect.w / 100) * canvasRect.width
         const displayH = (p.rect.h / 100) * canvasRect.height
-        
-        console.log(`Percentage Display Debug:`)
-        console.log(`  Stored: (${p.rect.x.toFixed(1)}%, ${p.rect.y.toFixed(1)}%, ${p.rect.w.toFixed(1)}%, ${p.rect.h.toFixed(1)}%)`)
-        console.log(`  Canvas: ${canvasRect.width.toFixed(1)}x${canvasRect.height.toFixed(1)}`)
-        console.log(`  Display: (${displayX.toFixed(1)}, ${displayY.toFixed(1)}, ${displayW.toFixed(1)}, ${displayH.toFixed(1)})`)
-        
-        // Setup image with display coordinates
-        img.src = p.imageDataUrl
-        img.className = 'sig-img'
-        img.dataset.placementId = p.id
-        img.style.left = displayX + 'px'
-        img.style.top = displayY + 'px'
-        img.style.width = displayW + 'px'
-        img.style.height = displayH + 'px'
-        img.draggable = false
-        img.title = 'Click to select, drag to move, right-click or Delete key to remove'
+        const geometry = pageGeometries[pageIndex]
+        const scale = geometry ? canvasRect.width / displaySize(geometry).width : 1
+        const el = placementElement(p, displayW, displayH, scale)
+
+        // Setup overlay with display coordinates
+        el.className = 'sig-img'
+        el.dataset.placementId = p.id
+        // Envelope signers' placements show in their color
+        const signer = p.signerId ? envelope?.signers.find(s => s.id === p.signerId) : undefined
+        if (signer) el.style.outline = `2px solid ${signer.color}`
+        el.style.left = displayX + 'px'
+        el.style.top = displayY + 'px'
+        el.style.width = displayW + 'px'
+        el.style.height = displayH + 'px'
+        el.title = p.kind === 'text'
+          ? 'Double-click to edit, drag to move, right-click or Delete key to remove'
+          : p.kind === 'mark'
+            ? 'Double-click to switch check/cross, drag to move, right-click or Delete key to remove'
+            : 'Click to select, drag to move, right-click or Delete key to remove'
         
         // Setup handle with mobile-friendly positioning
         handle.className = 'sig-handle'
@@ -196,19 +546,32 @@ export const PdfViewer: React.FC = () => {
         const selectSignature = () => {
           document.querySelectorAll('.sig-img').forEach(el => el.classList.remove('selected'))
           document.querySelectorAll('.sig-handle').forEach(el => (el as HTMLElement).style.display = 'none')
-          img.classList.add('selected')
+          el.classList.add('selected')
           handle.style.display = 'block'
         }
         
         // Click/Touch to select
-        img.addEventListener('click', (e) => {
+        el.addEventListener('click', (e) => {
           e.stopPropagation()
           selectSignature()
         })
         
         
+        // Double-click to edit a text stamp or flip a mark
+        el.addEventListener('dblclick', (e) => {
+          e.stopPropagation()
+          if (p.kind === 'text') {
+            const text = prompt('Edit text', p.text)
+            if (text === null) return
+            const sanitized = sanitizeStampText(text)
+            if (sanitized.trim()) editPlacement(p.id, { ...p, text: sanitized })
+          } else if (p.kind === 'mark') {
+            editPlacement(p.id, { ...p, mark: p.mark === 'check' ? 'cross' : 'check' })
+          }
+        })
+        
         // Right-click to delete
-        img.addEventListener('contextmenu', (e) => {
+        el.addEventListener('contextmenu', (e) => {
           e.preventDefault()
           if (confirm('Delete this signature?')) {
             removePlacement(p.id)
@@ -222,7 +585,7 @@ export const PdfViewer: React.FC = () => {
         const startDrag = (startX: number, startY: number, checkHandleArea: boolean = true) => {
           if (checkHandleArea) {
             // Check if click is near the handle area to avoid conflict
-            const imgRect = img.getBoundingClientRect()
+            const imgRect = el.getBoundingClientRect()
             const clickX = startX - imgRect.left
             const clickY = startY - imgRect.top
             const isMobile = window.innerWidth <= 768
@@ -236,10 +599,13 @@ export const PdfViewer: React.FC = () => {
             }
           }
           
+          // One gesture at a time, each its own undo step
+          endGestureRef.current?.()
           isDragging = true
           dragStarted = false
           const startRect = { ...p.rect }
           selectSignature()
+          beginPlacementGesture()
           
           const handleMove = (moveX: number, moveY: number) => {
             if (!isDragging) return
@@ -255,8 +621,7 @@ export const PdfViewer: React.FC = () => {
             
             const dx = moveX - startX
             const dy = moveY - startY
-            const canvas = wrap.querySelector('canvas') as HTMLCanvasElement
-            const canvasRect = canvas.getBoundingClientRect()
+            const canvasRect = wrap.getBoundingClientRect()
             
             // Convert pixel movement to percentage movement
             const percentDx = (dx / canvasRect.width) * 100
@@ -270,10 +635,13 @@ export const PdfViewer: React.FC = () => {
           const handleEnd = () => {
             isDragging = false
             dragStarted = false
+            endGestureRef.current = null
+            endPlacementGesture()
             document.removeEventListener('mousemove', handleMouseMove)
             document.removeEventListener('mouseup', handleMouseUp)
             document.removeEventListener('touchmove', handleTouchMove)
             document.removeEventListener('touchend', handleTouchEnd)
+            document.removeEventListener('touchcancel', handleTouchEnd)
           }
           
           const handleMouseMove = (moveEvent: MouseEvent) => {
@@ -300,11 +668,14 @@ export const PdfViewer: React.FC = () => {
           document.addEventListener('mouseup', handleMouseUp)
           document.addEventListener('touchmove', handleTouchMove, { passive: false })
           document.addEventListener('touchend', handleTouchEnd)
+          // The browser taking the touch over (a scroll, a system gesture) cancels it instead of ending it
+          document.addEventListener('touchcancel', handleTouchEnd)
+          endGestureRef.current = handleEnd
           
           return true
         }
         
-        img.addEventListener('mousedown', (e) => {
+        el.addEventListener('mousedown', (e) => {
           if (e.button !== 0) return // Only left click
           e.preventDefault()
           startDrag(e.clientX, e.clientY, true)
@@ -320,7 +691,13 @@ export const PdfViewer: React.FC = () => {
         let initialDistance = 0
         let initialRect = { ...p.rect }
         
-        img.addEventListener('touchstart', (e) => {
+        const endPinch = () => {
+          isPinching = false
+          if (endGestureRef.current === endPinch) endGestureRef.current = null
+          endPlacementGesture()
+        }
+        
+        el.addEventListener('touchstart', (e) => {
           e.preventDefault()
           
           if (e.touches.length === 1) {
@@ -333,7 +710,7 @@ export const PdfViewer: React.FC = () => {
             initialRect = { ...p.rect }
             
             // Set up long press detection
-            longPressTimer = setTimeout(() => {
+            longPressTimer = window.setTimeout(() => {
               isLongPress = true
               // Vibrate if available
               if ('vibrate' in navigator) {
@@ -350,9 +727,13 @@ export const PdfViewer: React.FC = () => {
               longPressTimer = null
             }
             
+            // A second finger while dragging ends the drag, and the pinch goes on from there
+            endGestureRef.current?.()
             isPinching = true
             isLongPress = false
             touchMoveStarted = false
+            beginPlacementGesture()
+            endGestureRef.current = endPinch
             
             const touch1 = e.touches[0]
             const touch2 = e.touches[1]
@@ -367,16 +748,14 @@ export const PdfViewer: React.FC = () => {
           }
         }, { passive: false })
         
-        img.addEventListener('touchend', (e) => {
+        el.addEventListener('touchend', (e) => {
           if (longPressTimer) {
             clearTimeout(longPressTimer)
             longPressTimer = null
           }
           
           // Reset pinching state when fingers are lifted
-          if (e.touches.length < 2) {
-            isPinching = false
-          }
+          if (e.touches.length < 2 && isPinching) endPinch()
           
           // Handle tap to select (only if not dragging, pinching, or long pressing)
           if (!isDragging && !isLongPress && !isPinching && e.changedTouches.length > 0) {
@@ -388,7 +767,16 @@ export const PdfViewer: React.FC = () => {
           isLongPress = false
         })
         
-        img.addEventListener('touchmove', (e) => {
+        el.addEventListener('touchcancel', () => {
+          if (longPressTimer) {
+            clearTimeout(longPressTimer)
+            longPressTimer = null
+          }
+          if (isPinching) endPinch()
+          isLongPress = false
+        })
+        
+        el.addEventListener('touchmove', (e) => {
           if (longPressTimer) {
             clearTimeout(longPressTimer)
             longPressTimer = null
@@ -427,7 +815,7 @@ export const PdfViewer: React.FC = () => {
               const deltaY = Math.abs(touch.clientY - initialTouchY)
               
               // Check if touch started in handle area
-              const imgRect = img.getBoundingClientRect()
+              const imgRect = el.getBoundingClientRect()
               const startClickX = initialTouchX - imgRect.left
               const startClickY = initialTouchY - imgRect.top
               const isMobile = window.innerWidth <= 768
@@ -448,8 +836,10 @@ export const PdfViewer: React.FC = () => {
         
         // Resize functionality (mouse and touch)
         const startResize = (startX: number, startY: number) => {
+          endGestureRef.current?.()
           let isResizing = true
           const startRect = { ...p.rect }
+          beginPlacementGesture()
           
           // Visual feedback during resize
           handle.style.backgroundColor = '#1d4ed8'
@@ -459,8 +849,7 @@ export const PdfViewer: React.FC = () => {
             if (!isResizing) return
             const dx = moveX - startX
             const dy = moveY - startY
-            const canvas = wrap.querySelector('canvas') as HTMLCanvasElement
-            const canvasRect = canvas.getBoundingClientRect()
+            const canvasRect = wrap.getBoundingClientRect()
             
             // Convert pixel movement to percentage movement
             const percentDx = (dx / canvasRect.width) * 100
@@ -482,6 +871,8 @@ export const PdfViewer: React.FC = () => {
           
           const handleResizeEnd = () => {
             isResizing = false
+            endGestureRef.current = null
+            endPlacementGesture()
             
             // Reset visual feedback
             handle.style.backgroundColor = '#3b82f6'
@@ -491,6 +882,7 @@ export const PdfViewer: React.FC = () => {
             document.removeEventListener('mouseup', handleMouseResizeUp)
             document.removeEventListener('touchmove', handleTouchResizeMove)
             document.removeEventListener('touchend', handleTouchResizeEnd)
+            document.removeEventListener('touchcancel', handleTouchResizeEnd)
           }
           
           const handleMouseResizeMove = (moveEvent: MouseEvent) => {
@@ -517,6 +909,8 @@ export const PdfViewer: React.FC = () => {
           document.addEventListener('mouseup', handleMouseResizeUp)
           document.addEventListener('touchmove', handleTouchResizeMove, { passive: false })
           document.addEventListener('touchend', handleTouchResizeEnd)
+          document.addEventListener('touchcancel', handleTouchResizeEnd)
+          endGestureRef.current = handleResizeEnd
         }
         
         handle.addEventListener('mousedown', (e) => {
@@ -550,11 +944,129 @@ export const PdfViewer: React.FC = () => {
           e.preventDefault()
         }, { passive: false })
         
-        wrap.appendChild(img)
+        wrap.appendChild(el)
         wrap.appendChild(handle)
       })
     })
-  }, [placements])
+  }, [placements, pageGeometries, zoomFactor, envelope])
+
+  // Outline envelope fields in their signer's color: all of them while preparing, the current signer's open ones once received
+  useEffect(()=>{
+    if (!containerRef.current) return
+    const wraps = Array.from(containerRef.current.querySelectorAll('.page-wrap')) as HTMLElement[]
+    wraps.forEach(wrap => Array.from(wrap.querySelectorAll('.envelope-field')).forEach(el => el.remove()))
+    if (!envelope) return
+    const fields = envelopeReceived
+      ? envelopeSignerId ? openEnvelopeFields(envelope, envelopeSignerId, placements) : []
+      : envelope.fields
+    fields.forEach(field => {
+      const wrap = wraps[field.pageIndex]
+      const signer = envelope.signers.find(s => s.id === field.signerId)
+      if (!wrap || !signer) return
+      const canvasRect = wrap.getBoundingClientRect()
+      const el = document.createElement('div')
+      el.className = 'envelope-field'
+      el.textContent = `${field.kind === 'initials' ? 'Initial' : 'Sign'}: ${signer.name}`
+      el.title = signer.email ? `${signer.name} <${signer.email}>` : signer.name
+      el.style.borderColor = signer.color
+      el.style.color = signer.color
+      el.style.left = (field.rect.x / 100) * canvasRect.width + 'px'
+      el.style.top = (field.rect.y / 100) * canvasRect.height + 'px'
+      el.style.width = (field.rect.w / 100) * canvasRect.width + 'px'
+      el.style.height = (field.rect.h / 100) * canvasRect.height + 'px'
+      wrap.insertBefore(el, wrap.querySelector('.sig-img'))
+    })
+  }, [pageGeometries, envelope, envelopeSignerId, envelopeReceived, placements, zoomFactor])
+
+  // Outline empty signature fields as drop targets until a signature is snapped into them
+  useEffect(()=>{
+    if (!containerRef.current) return
+    const wraps = Array.from(containerRef.current.querySelectorAll('.page-wrap')) as HTMLElement[]
+    wraps.forEach(wrap => Array.from(wrap.querySelectorAll('.sig-target')).forEach(el => el.remove()))
+    openSignatureTargets(formFields, placements).forEach(field => {
+      field.widgets.forEach(widget => {
+        const wrap = wraps[widget.pageIndex]
+        if (!wrap) return
+        const canvasRect = wrap.getBoundingClientRect()
+        const el = document.createElement('div')
+        el.className = 'sig-target'
+        el.textContent = 'Sign here'
+        el.title = field.name
+        el.style.left = (widget.rect.x / 100) * canvasRect.width + 'px'
+        el.style.top = (widget.rect.y / 100) * canvasRect.height + 'px'
+        el.style.width = (widget.rect.w / 100) * canvasRect.width + 'px'
+        el.style.height = (widget.rect.h / 100) * canvasRect.height + 'px'
+        wrap.insertBefore(el, wrap.querySelector('.sig-img'))
+      })
+    })
+  }, [pageGeometries, formFields, placements, zoomFactor])
+
+  // Paint edited form values over the field appearances pdf.js rendered from the file
+  useEffect(()=>{
+    if (!containerRef.current) return
+    const wraps = Array.from(containerRef.current.querySelectorAll('.page-wrap')) as HTMLElement[]
+    wraps.forEach(wrap => Array.from(wrap.querySelectorAll('.form-value')).forEach(el => el.remove()))
+    formFields.forEach(field => {
+      if (!(field.name in formValues)) return
+      const value = formValues[field.name]
+      field.widgets.forEach(widget => {
+        const wrap = wraps[widget.pageIndex]
+        if (!wrap) return
+        const canvasRect = wrap.getBoundingClientRect()
+        const el = document.createElement('div')
+        el.className = 'form-value'
+        el.style.left = (widget.rect.x / 100) * canvasRect.width + 'px'
+        el.style.top = (widget.rect.y / 100) * canvasRect.height + 'px'
+        el.style.width = (widget.rect.w / 100) * canvasRect.width + 'px'
+        const height = (widget.rect.h / 100) * canvasRect.height
+        el.style.height = height + 'px'
+        if (field.kind === 'checkbox' || field.kind === 'radio') {
+          const on = field.kind === 'checkbox' ? value === true : value !== '' && value === widget.option
+          el.textContent = on ? (field.kind === 'checkbox' ? '✓' : '●') : ''
+          el.style.justifyContent = 'center'
+          el.style.fontSize = height * 0.8 + 'px'
+        } else {
+          el.textContent = String(value)
+          el.style.fontSize = Math.max(6, Math.min(height * 0.7, 14)) + 'px'
+          if (field.multiline) {
+            el.style.alignItems = 'flex-start'
+            el.style.whiteSpace = 'pre-wrap'
+            el.style.fontSize = Math.min(height * 0.7, 12) + 'px'
+          }
+        }
+        // Keep signatures above the field values
+        wrap.insertBefore(el, wrap.querySelector('.sig-img'))
+      })
+    })
+  }, [pageGeometries, formFields, formValues, zoomFactor])
 
-  return <div ref={containerRef} style={{ padding: 12, overflow: 'auto', height: '100%' }} />
+  const zoomPercent = Math.round(zoomFactor * 100)
+  return (
+    <div style={{ display:'flex', flexDirection:'column', flex:1, minHeight:0, minWidth:0 }}>
+      {hasDoc && (
+        <div style={{ display:'flex', flexWrap:'wrap', gap:6, alignItems:'center', justifyContent:'space-between', padding:'6px 8px', borderBottom:'1px solid #e5e7eb' }}>
+          <div style={{ display:'flex', gap:6, alignItems:'center' }}>
+            <button style={toolbarButtonStyle} title="Undo (Ctrl+Z)" disabled={undoStack.length === 0} onClick={undo}>↶ Undo</button>
+            <button style={toolbarButtonStyle} title="Redo (Ctrl+Shift+Z)" disabled={redoStack.length === 0} onClick={redo}>↷ Redo</button>
+          </div>
+          <SearchBar />
+          <div style={{ display:'flex', gap:6, alignItems:'center' }}>
+            <button style={toolbarButtonStyle} title="Zoom out" disabled={zoomFactor <= MIN_ZOOM} onClick={() => setZoom(zoomOut(zoomFactor))}>−</button>
+            <select
+              value={typeof zoom === 'number' ? String(zoom) : zoom} title="Zoom"
+              onChange={(e) => setZoom(e.target.value in ZOOM_MODES ? e.target.value as Zoom : Number(e.target.value))}
+            >
+              {(Object.keys(ZOOM_MODES) as (keyof typeof ZOOM_MODES)[]).map(mode => (
+                <option key={mode} value={mode}>{ZOOM_MODES[mode]}{zoom === mode ? ` (${zoomPercent}%)` : ''}</option>
+              ))}
+              {typeof zoom === 'number' && !ZOOM_STEPS.includes(zoom) && <option value={String(zoom)}>{zoomPercent}%</option>}
+              {ZOOM_STEPS.map(step => <option key={step} value={String(step)}>{Math.round(step * 100)}%</option>)}
+            </select>
+            <button style={toolbarButtonStyle} title="Zoom in" disabled={zoomFactor >= MAX_ZOOM} onClick={() => setZoom(zoomIn(zoomFactor))}>+</button>
+          </div>
+        </div>
+      )}
+      <div ref={containerRef} style={{ padding: VIEWER_PADDING, overflow: 'auto', flex: 1, minHeight: 0, touchAction: 'pan-x pan-y' }} />
+    </div>
+  )
 }
\ No newline at end of file
@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react'
+import { useAppStore } from '../store/appStore'
+import { getPageTexts } from '../modules/pdf/render'
+import { findTextMatches, phraseRegExp } from '../modules/pdf/textSearch'
+
+const buttonStyle: React.CSSProperties = { padding:'4px 10px', minHeight:0 }
+
+/** Find text in the document: hits are highlighted in the viewer, Enter / Shift+Enter step through them. */
+export const SearchBar: React.FC = () => {
+  const { pdfDocument, pageGeometries, searchHits, currentHit, setSearchHits, setCurrentHit } = useAppStore()
+  const [query, setQuery] = useState('')
+  const [searching, setSearching] = useState(false)
+
+  // A new document starts with an empty search
+  useEffect(() => setQuery(''), [pdfDocument])
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    if (!pdfDocument || !query.trim()) {
+      setSearchHits([])
+      return
+    }
+    let stale = false
+    const timer = setTimeout(async () => {
+      setSearching(true)
+      try {
+        const texts = await getPageTexts(pdfDocument)
+        if (!stale) setSearchHits(findTextMatches(texts, pageGeometries, [phraseRegExp(query)]))
+      } catch (error) {
+        console.error('Search error:', error)
+      } finally {
+        if (!stale) setSearching(false)
+      }
+    }, 250)
+    return () => {
+      stale = true
+      clearTimeout(timer)
+    }
+  }, [pdfDocument, pageGeometries, query])
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      setCurrentHit(currentHit + (e.shiftKey ? -1 : 1))
+    } else if (e.key === 'Escape') {
+      setQuery('')
+    }
+  }
+
+  const status = searching ? 'Searching…'
+    : !query.trim() ? ''
+    : searchHits.length ? `${currentHit + 1} of ${searchHits.length}`
+    : 'No matches'
+
+  return (
+    <div style={{ display:'flex', gap:6, alignItems:'center' }}>
+      <input
+        type="search" placeholder="Find in document" value={query} aria-label="Find in document"
+        onChange={(e) => setQuery(e.target.value)} onKeyDown={handleKeyDown} style={{ width:180 }}
+      />
+      <button style={buttonStyle} title="Previous match (Shift+Enter)" disabled={searchHits.length === 0} onClick={() => setCurrentHit(currentHit - 1)}>↑</button>
+      <button style={buttonStyle} title="Next match (Enter)" disabled={searchHits.length === 0} onClick={() => setCurrentHit(currentHit + 1)}>↓</button>
+      <span className="hint" style={{ minWidth:70 }}>{status}</span>
+    </div>
+  )
+}
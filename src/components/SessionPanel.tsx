@@ -0,0 +1,43 @@
+import React, { useEffect } from 'react'
+import { useAppStore } from '../store/appStore'
+import type { SessionRetention } from '../modules/storage/session'
+
+const RETENTION_LABELS: Record<SessionRetention, string> = {
+  off: "Don't keep",
+  hour: 'For 1 hour',
+  day: 'For 1 day',
+  week: 'For 1 week',
+  forever: 'Until cleared'
+}
+
+/** Offers to resume the session an earlier visit left, and sets how long sessions stay on this device. */
+export const SessionPanel: React.FC = () => {
+  const { savedSession, checkSavedSession, resumeSession, discardSession, sessionRetention, setSessionRetention } = useAppStore()
+
+  useEffect(() => checkSavedSession(), [])
+
+  return (
+    <div style={{marginTop:8, fontSize:12}}>
+      {savedSession && (
+        <div style={{marginBottom:8, padding:8, background:'#eff6ff', borderRadius:4}}>
+          <div><strong>Resume previous session?</strong></div>
+          <div style={{marginTop:4, wordBreak:'break-all'}}>{savedSession.file.name}</div>
+          <div className="hint">
+            {savedSession.placements.length} item{savedSession.placements.length !== 1 ? 's' : ''} placed,
+            last changed {new Date(savedSession.savedAt).toLocaleString()}
+          </div>
+          <div className="row" style={{marginTop:8}}>
+            <button className="primary" onClick={resumeSession}>Resume</button>
+            <button onClick={discardSession}>Discard</button>
+          </div>
+        </div>
+      )}
+      <label style={{display:'flex', alignItems:'center', gap:6}}>
+        Keep session on this device
+        <select value={sessionRetention} onChange={(e) => setSessionRetention(e.target.value as SessionRetention)} style={{flex:1, minWidth:0}}>
+          {(Object.keys(RETENTION_LABELS) as SessionRetention[]).map(r => <option key={r} value={r}>{RETENTION_LABELS[r]}</option>)}
+        </select>
+      </label>
+    </div>
+  )
+}
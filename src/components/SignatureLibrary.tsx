@@ -0,0 +1,56 @@
+import React, { useEffect } from 'react'
+import { useAppStore } from '../store/appStore'
+import type { LibrarySlot } from '../modules/storage/library'
+
+const SLOT_LABELS: Record<LibrarySlot, string> = { signature: 'Signatures', initials: 'Initials' }
+
+/** Saved signatures and initials: click one to place it, star the one to start with, rename or delete. */
+export const SignatureLibrary: React.FC = () => {
+  const {
+    library, librarySelection, placing, loadSignatureLibrary, selectLibraryItem, renameLibraryItem, setLibraryDefault, removeLibraryItem
+  } = useAppStore()
+
+  useEffect(() => loadSignatureLibrary(), [])
+
+  if (library.length === 0) return null
+
+  return (
+    <div style={{marginTop:16}}>
+      <div><strong>My signatures</strong></div>
+      {(Object.keys(SLOT_LABELS) as LibrarySlot[]).map(slot => {
+        const items = library.filter(item => item.slot === slot)
+        if (items.length === 0) return null
+        // Initials are placed as a stamp
+        const active = placing === (slot === 'signature' ? 'signature' : 'stamp')
+        return (
+          <div key={slot} style={{marginTop:8}}>
+            <div className="hint">{SLOT_LABELS[slot]}</div>
+            <div className="library-grid">
+              {items.map(item => (
+                <div key={item.id} className={`library-item${active && librarySelection[slot] === item.id ? ' selected' : ''}`}>
+                  <button className="library-thumb" title={`Place ${item.name}`} onClick={() => selectLibraryItem(item.id)}>
+                    <img src={item.imageDataUrl} alt={item.name} draggable={false} />
+                  </button>
+                  <div className="library-name" title={item.name}>{item.name}</div>
+                  <div className="library-actions">
+                    <button
+                      title={item.isDefault ? 'Default (click to unset)' : 'Use by default'}
+                      onClick={() => setLibraryDefault(item.id, !item.isDefault)}
+                    >{item.isDefault ? '★' : '☆'}</button>
+                    <button title="Rename" onClick={() => {
+                      const name = prompt('Name', item.name)
+                      if (name !== null) renameLibraryItem(item.id, name)
+                    }}>✎</button>
+                    <button title="Delete" onClick={() => {
+                      if (confirm(`Delete "${item.name}" from the library?`)) removeLibraryItem(item.id)
+                    }}>🗑</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,28 +1,47 @@
 import React, { useEffect, useRef, useState } from 'react'
 import SignaturePad from 'signature_pad'
 import { useAppStore } from '../store/appStore'
+import type { LibrarySlot } from '../modules/storage/library'
+import { DEFAULT_SIGNATURE_FONT, SIGNATURE_FONTS, SignatureFontId, TYPED_SIGNATURE_LAYOUT, signatureFontFamily, typedSignaturePreview } from '../modules/fonts/signatureFonts'
+
+const MAX_NAME_LENGTH = 50
+// Names may use letters, marks and digits of any script plus spaces and name punctuation (and the joiners some
+// scripts need). Markup characters, control characters and bidi overrides are never allowed through.
+const NAME_DISALLOWED = /[^\p{L}\p{M}\p{N}\s.\-'\u2019\u200C\u200D]/gu
+
+// Count characters, not UTF-16 units, so names outside the BMP aren't cut in half
+const limitLength = (text: string) => Array.from(text).slice(0, MAX_NAME_LENGTH).join('')
 
 export const SignaturePanel: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [mode, setMode] = useState<'draw'|'type'|'upload'>('draw')
   const [typed, setTyped] = useState('')
+  const [fontId, setFontId] = useState<SignatureFontId>(DEFAULT_SIGNATURE_FONT)
   const [removeBackground, setRemoveBackground] = useState(true)
   const [backgroundThreshold, setBackgroundThreshold] = useState(230)
   const [originalImageData, setOriginalImageData] = useState<string | null>(null)
+  const [libraryName, setLibraryName] = useState('')
+  const [librarySlot, setLibrarySlot] = useState<LibrarySlot>('signature')
   const padRef = useRef<SignaturePad | null>(null)
-  const { setCurrentSignature, currentSignature, clearAllPlacements } = useAppStore()
+  const { setCurrentSignature, currentSignature, placing, clearAllPlacements, librarySelection, saveToLibrary } = useAppStore()
+
+  const handleSaveToLibrary = (e: React.FormEvent) => {
+    e.preventDefault()
+    saveToLibrary(libraryName, librarySlot)
+    setLibraryName('')
+  }
 
   // Handle real-time input filtering
   const handleTypedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const rawValue = e.target.value
     // Apply basic filtering in real-time (more comprehensive sanitization happens on submit)
     const filtered = rawValue
+      .normalize('NFC') // Compose accents so "é" is one character in every font
       .replace(/[<>\"'&`]/g, '') // Remove dangerous characters immediately
       .replace(/javascript:/gi, '') // Remove javascript protocol
-      .replace(/[^\w\s\.\-']/g, '') // Only allow word characters, spaces, dots, hyphens, apostrophes
-      .substring(0, 50) // Enforce length limit
+      .replace(NAME_DISALLOWED, '') // Only allow letters, marks, digits, spaces, dots, hyphens, apostrophes
     
-    setTyped(filtered)
+    setTyped(limitLength(filtered)) // Enforce length limit
   }
 
   useEffect(()=>{
@@ -66,53 +85,34 @@ export const SignaturePanel: React.FC = () => {
     }
   }, [mode])
 
-  const useThis = () => {
+  const useThis = async () => {
     if (mode === 'draw') {
       const pad = padRef.current
       if (!pad || pad.isEmpty()) {
         alert('Please draw your signature first')
         return
       }
+      // The PNG is only the on-screen preview; the strokes are exported as vector paths
       const url = pad.toDataURL('image/png')
-      setCurrentSignature(url)
+      const canvas = canvasRef.current!
+      const ratio = Math.max(window.devicePixelRatio || 1, 1)
+      const strokes = { width: canvas.width / ratio, height: canvas.height / ratio, groups: pad.toData() }
+      setCurrentSignature(url, 'draw', { strokes })
     } else if (mode === 'type') {
       const sanitizedText = sanitizeInput(typed.trim())
       if (!sanitizedText) {
         alert('Please enter your name first')
         return
       }
-      if (sanitizedText.length > 50) {
-        alert('Name is too long. Maximum 50 characters allowed.')
-        return
-      }
-      
-      // Additional validation: ensure only printable ASCII characters for canvas rendering
-      const finalText = sanitizedText.replace(/[^\x20-\x7E]/g, '')
-      if (!finalText) {
-        alert('Please enter a valid name using standard characters')
+      if (Array.from(sanitizedText).length > MAX_NAME_LENGTH) {
+        alert(`Name is too long. Maximum ${MAX_NAME_LENGTH} characters allowed.`)
         return
       }
       
       try {
-        const c = document.createElement('canvas')
-        const w = 320, h = 140
-        c.width = w; c.height = h
-        const ctx = c.getContext('2d')!
-        
-        // Clear canvas with transparent background
-        ctx.fillStyle = 'rgba(255,255,255,0)'
-        ctx.fillRect(0, 0, w, h)
-        
-        // Set text properties securely
-        ctx.fillStyle = '#111827'
-        ctx.font = '32px "Segoe Script", "Brush Script MT", cursive'
-        ctx.textBaseline = 'middle'
-        
-        // Render text safely (canvas API automatically escapes content)
-        ctx.fillText(finalText, 16, h/2)
-        
-        const url = c.toDataURL('image/png')
-        setCurrentSignature(url)
+        const typedSignature = { text: sanitizedText, font: fontId }
+        const url = await typedSignaturePreview(typedSignature)
+        setCurrentSignature(url, 'type', { typed: typedSignature })
       } catch (error) {
         alert('Failed to create signature. Please try again.')
         console.error('Canvas rendering error:', error)
@@ -135,12 +135,13 @@ export const SignaturePanel: React.FC = () => {
       .replace(/expression\s*\(/gi, '') // Remove CSS expressions
       .replace(/url\s*\(/gi, '') // Remove CSS url() functions
       .replace(/[<>\"'&`]/g, '') // Remove dangerous HTML characters
-      .replace(/[\x00-\x1F\x7F]/g, '') // Remove control characters
+      .replace(/[\p{Cc}\p{Cs}\p{Co}\p{Cn}\u200E\u200F\u202A-\u202E\u2066-\u2069]/gu, '') // Remove control, unassigned and bidi override characters
       .replace(/\s+/g, ' ') // Normalize whitespace
       .trim()
+      .normalize('NFC')
     
-    // Only allow safe characters: letters, numbers, spaces, and basic punctuation
-    sanitized = sanitized.replace(/[^a-zA-Z0-9\s\.\-']/g, '')
+    // Only allow safe characters: letters, marks and digits of any script, spaces, and basic punctuation
+    sanitized = sanitized.replace(NAME_DISALLOWED, '')
     
     return sanitized
   }
@@ -490,7 +491,7 @@ export const SignaturePanel: React.FC = () => {
           setOriginalImageData(result)
           // Process the image based on user settings
           const processedSignature = await processBackground(result, removeBackground, backgroundThreshold)
-          setCurrentSignature(processedSignature)
+          setCurrentSignature(processedSignature, 'upload')
         } else {
           alert('Invalid image file. Please try a different image.')
           e.target.value = ''
@@ -500,7 +501,7 @@ export const SignaturePanel: React.FC = () => {
         // Fallback to original image if background removal fails
         const result = r.result as string
         if (isValidDataURL(result)) {
-          setCurrentSignature(result)
+          setCurrentSignature(result, 'upload')
         } else {
           alert('Invalid image file. Please try a different image.')
           e.target.value = ''
@@ -525,11 +526,11 @@ export const SignaturePanel: React.FC = () => {
     
     try {
       const processedSignature = await processBackground(originalImageData, removeBackground, backgroundThreshold)
-      setCurrentSignature(processedSignature)
+      setCurrentSignature(processedSignature, 'upload')
     } catch (error) {
       console.error('Re-processing failed:', error)
       // Fallback to original if processing fails
-      setCurrentSignature(originalImageData)
+      setCurrentSignature(originalImageData, 'upload')
     }
   }
 
@@ -558,10 +559,25 @@ export const SignaturePanel: React.FC = () => {
         <label style={{marginLeft:12}}><input type="radio" checked={mode==='type'} onChange={()=>setMode('type')} /> Type</label>
         <label style={{marginLeft:12}}><input type="radio" checked={mode==='upload'} onChange={()=>setMode('upload')} /> Upload</label>
       </div>
-      {currentSignature && (
-        <div style={{marginTop:8, padding:8, background:'#f0f9ff', borderRadius:4, fontSize:12, color:'#0369a1', display:'flex', alignItems:'center', justifyContent:'space-between'}}>
-          <span>✓ Signature ready! Click on the PDF to place it.</span>
-          <button style={{fontSize:10, padding:'2px 6px'}} onClick={() => clearAllPlacements()}>Clear</button>
+      {currentSignature && placing === 'signature' && (
+        <div style={{marginTop:8, padding:8, background:'#f0f9ff', borderRadius:4, fontSize:12, color:'#0369a1'}}>
+          <div style={{display:'flex', alignItems:'center', justifyContent:'space-between'}}>
+            <span>✓ Signature ready! Click on the PDF to place it.</span>
+            <button style={{fontSize:10, padding:'2px 6px'}} onClick={() => clearAllPlacements()}>Clear</button>
+          </div>
+          {!librarySelection.signature && (
+            <form onSubmit={handleSaveToLibrary} style={{display:'flex', gap:4, marginTop:6, alignItems:'center'}}>
+              <input
+                dir="auto" placeholder="Name (optional)" value={libraryName} maxLength={50} autoComplete="off"
+                onChange={(e) => setLibraryName(e.target.value)} style={{flex:1, minWidth:0}}
+              />
+              <select value={librarySlot} onChange={(e) => setLibrarySlot(e.target.value as LibrarySlot)} title="Save as">
+                <option value="signature">Signature</option>
+                <option value="initials">Initials</option>
+              </select>
+              <button type="submit" style={{fontSize:10, padding:'2px 6px', minHeight:0}}>Save to library</button>
+            </form>
+          )}
         </div>
       )}
       {mode==='draw' && (
@@ -574,25 +590,41 @@ export const SignaturePanel: React.FC = () => {
         </div>
       )}
       {mode==='type' && (
-        <div style={{display:'flex', gap:8, marginTop:8}}>
-          <input 
-            placeholder="Type your name" 
-            value={typed} 
-            onChange={handleTypedChange}
-            onPaste={(e) => {
-              // Prevent pasting of potentially malicious content
-              e.preventDefault()
-              const pastedText = e.clipboardData.getData('text')
-              const sanitized = sanitizeInput(pastedText)
-              setTyped(sanitized.substring(0, 50))
+        <div style={{marginTop:8}}>
+          <select value={fontId} onChange={(e) => setFontId(e.target.value as SignatureFontId)} style={{width:'100%'}}>
+            {(Object.keys(SIGNATURE_FONTS) as SignatureFontId[]).map(id => (
+              <option key={id} value={id}>{SIGNATURE_FONTS[id].label}</option>
+            ))}
+          </select>
+          <div
+            dir="auto"
+            style={{
+              marginTop:8, padding:'4px 8px', minHeight:48, border:'1px solid #e5e7eb', borderRadius:8,
+              fontFamily:`${signatureFontFamily(fontId)}, cursive`, fontSize:32, color:TYPED_SIGNATURE_LAYOUT.color,
+              whiteSpace:'nowrap', overflow:'hidden', textOverflow:'ellipsis'
             }}
-            maxLength={50}
-            pattern="[A-Za-z0-9\s\.\-']+"
-            title="Only letters, numbers, spaces, periods, hyphens, and apostrophes allowed"
-            autoComplete="off"
-            spellCheck="false"
-          />
-          <button className="primary" onClick={useThis}>Use This</button>
+          >
+            {typed || <span style={{color:'#9ca3af'}}>Your name</span>}
+          </div>
+          <div style={{display:'flex', gap:8, marginTop:8}}>
+            <input 
+              dir="auto"
+              placeholder="Type your name" 
+              value={typed} 
+              onChange={handleTypedChange}
+              onPaste={(e) => {
+                // Prevent pasting of potentially malicious content
+                e.preventDefault()
+                const pastedText = e.clipboardData.getData('text')
+                const sanitized = sanitizeInput(pastedText)
+                setTyped(limitLength(sanitized))
+              }}
+              title="Only letters, numbers, spaces, periods, hyphens, and apostrophes allowed"
+              autoComplete="off"
+              spellCheck="false"
+            />
+            <button className="primary" onClick={useThis}>Use This</button>
+          </div>
         </div>
       )}
       {mode==='upload' && (
@@ -0,0 +1,56 @@
+import React, { useEffect } from 'react'
+import { useAppStore } from '../store/appStore'
+import { SIGNING_RULE_LABELS, SigningRuleId } from '../modules/rules/signingRules'
+
+const linkStyle: React.CSSProperties = { fontSize:11, padding:0, minHeight:0, width:'auto', margin:0, border:'none', background:'none', color:'#2563eb', textAlign:'left' }
+
+/** Rules to meet before export, as a checklist: each failing rule lists where to fix it. */
+export const SigningRulesPanel: React.FC = () => {
+  const {
+    hasDoc, pdfDocument, placements, formFields, pageGeometries, signingRules, ruleViolations, rulesOverridden,
+    setSigningRule, checkRules, setRulesOverridden, goToPage
+  } = useAppStore()
+
+  // Check again once edits pause; drags change placements on every move
+  useEffect(() => {
+    if (!hasDoc) return
+    const timer = setTimeout(() => { checkRules() }, 200)
+    return () => clearTimeout(timer)
+  }, [hasDoc, pdfDocument, placements, formFields, pageGeometries, signingRules])
+
+  if (!hasDoc) return null
+
+  const ids = Object.keys(SIGNING_RULE_LABELS) as SigningRuleId[]
+  const enabled = ids.some(id => signingRules[id])
+
+  return (
+    <div style={{marginTop:12, fontSize:12}}>
+      <div><strong>Signing rules</strong> <span className="hint">checked before download and sending an envelope</span></div>
+      {ids.map(id => {
+        const violations = ruleViolations.filter(v => v.rule === id)
+        return (
+          <div key={id} style={{marginTop:4}}>
+            <label style={{display:'flex', alignItems:'center'}}>
+              <input type="checkbox" checked={signingRules[id]} onChange={(e) => setSigningRule(id, e.target.checked)} style={{marginRight:6}} />
+              <span style={{flex:1}}>{SIGNING_RULE_LABELS[id]}</span>
+              {signingRules[id] && (violations.length
+                ? <span style={{color:'#b91c1c'}} title="Not met">✗</span>
+                : <span style={{color:'#166534'}} title="Met">✓</span>)}
+            </label>
+            {signingRules[id] && violations.map((v, i) => (
+              <div key={i} style={{paddingLeft:20}}>
+                <button style={linkStyle} onClick={() => goToPage(v.pageIndex)}>{v.message}</button>
+              </div>
+            ))}
+          </div>
+        )
+      })}
+      {enabled && ruleViolations.length > 0 && (
+        <label style={{display:'flex', alignItems:'center', marginTop:6, color:'#92400e'}}>
+          <input type="checkbox" checked={rulesOverridden} onChange={(e) => setRulesOverridden(e.target.checked)} style={{marginRight:6}} />
+          Download anyway, without meeting these rules
+        </label>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+import React, { useState } from 'react'
+import { DateFormat, MarkType, StampContent, TextStyle, useAppStore } from '../store/appStore'
+import {
+  DEFAULT_SIGNATURE_FONT, SIGNATURE_FONTS, SignatureFontId, TEXT_FONTS, TextFontId, signatureFontFamily, typedSignaturePreview
+} from '../modules/fonts/signatureFonts'
+import { DATE_FORMATS, formatStampDate, sanitizeStampText } from '../modules/write/stamps'
+
+type StampKind = StampContent['kind']
+
+const KIND_LABELS: Record<StampKind, string> = { initials: 'Initials', text: 'Text', date: 'Date', mark: 'Check mark' }
+
+const MAX_INITIALS_LENGTH = 5
+// Initials are letters (with their marks) and periods only
+const sanitizeInitials = (text: string) =>
+  Array.from(text.normalize('NFC').replace(/[^\p{L}\p{M}.]/gu, '')).slice(0, MAX_INITIALS_LENGTH).join('')
+
+const LOCALES = Array.from(new Set([navigator.language, 'en-US', 'en-GB', 'de-DE', 'fr-FR', 'es-ES', 'it-IT', 'pt-BR', 'nl-NL', 'ja-JP', 'zh-CN', 'ko-KR']))
+
+// Shared controls for the text and date stamps
+const TextStyleEditor: React.FC<{ style: TextStyle, onChange: (style: TextStyle) => void }> = ({ style, onChange }) => (
+  <div style={{display:'flex', gap:8, marginTop:8, alignItems:'center'}}>
+    <select value={style.font} onChange={(e) => onChange({ ...style, font: e.target.value as TextFontId })} style={{flex:1}}>
+      {(Object.keys(TEXT_FONTS) as TextFontId[]).map(id => <option key={id} value={id}>{TEXT_FONTS[id].label}</option>)}
+    </select>
+    <input type="number" min={6} max={72} value={style.size} title="Font size (pt)" style={{width:56}}
+      onChange={(e) => onChange({ ...style, size: Math.max(6, Math.min(72, Number(e.target.value) || 12)) })} />
+    <input type="color" value={style.color} title="Text color" onChange={(e) => onChange({ ...style, color: e.target.value })} />
+  </div>
+)
+
+/** Date, text, initials and check marks placed next to the signature ("Date:", "Initials:" lines of a contract). */
+export const StampPanel: React.FC = () => {
+  const { currentStamp, placing, setCurrentStamp } = useAppStore()
+  const [kind, setKind] = useState<StampKind>('date')
+  const [initials, setInitials] = useState('')
+  const [initialsFont, setInitialsFont] = useState<SignatureFontId>(DEFAULT_SIGNATURE_FONT)
+  const [text, setText] = useState('')
+  const [textStyle, setTextStyle] = useState<TextStyle>({ font: 'sans', size: 12, color: '#111827' })
+  const [dateFormat, setDateFormat] = useState<DateFormat>('long')
+  const [locale, setLocale] = useState(LOCALES[0])
+  const [dateStyle, setDateStyle] = useState<TextStyle>({ font: 'sans', size: 12, color: '#111827' })
+  const [mark, setMark] = useState<MarkType>('check')
+  const [markColor, setMarkColor] = useState('#111827')
+
+  const useThis = async () => {
+    if (kind === 'initials') {
+      if (!initials) {
+        alert('Please enter your initials first')
+        return
+      }
+      try {
+        const typed = { text: initials, font: initialsFont }
+        setCurrentStamp({ kind: 'initials', imageDataUrl: await typedSignaturePreview(typed), method: 'type', typed })
+      } catch (error) {
+        alert('Failed to create initials. Please try again.')
+        console.error('Canvas rendering error:', error)
+      }
+    } else if (kind === 'text') {
+      if (!text.trim()) {
+        alert('Please enter some text first')
+        return
+      }
+      setCurrentStamp({ kind: 'text', text, style: textStyle })
+    } else if (kind === 'date') {
+      setCurrentStamp({ kind: 'date', format: dateFormat, locale, style: dateStyle })
+    } else {
+      setCurrentStamp({ kind: 'mark', mark, color: markColor })
+    }
+  }
+
+  return (
+    <div style={{marginTop:16}}>
+      <div><strong>Stamps</strong></div>
+      <div style={{marginTop:4}}>
+        {(Object.keys(KIND_LABELS) as StampKind[]).map((k, i) => (
+          <label key={k} style={{marginLeft: i ? 12 : 0}}>
+            <input type="radio" checked={kind === k} onChange={() => setKind(k)} /> {KIND_LABELS[k]}
+          </label>
+        ))}
+      </div>
+      {placing === 'stamp' && currentStamp && (
+        <div style={{marginTop:8, padding:8, background:'#f0f9ff', borderRadius:4, fontSize:12, color:'#0369a1', display:'flex', alignItems:'center', justifyContent:'space-between'}}>
+          <span>✓ {KIND_LABELS[currentStamp.kind]} ready! Click on the PDF to place it.</span>
+          <button style={{fontSize:10, padding:'2px 6px'}} onClick={() => setCurrentStamp(null)}>Done</button>
+        </div>
+      )}
+      {kind === 'initials' && (
+        <div style={{marginTop:8}}>
+          <select value={initialsFont} onChange={(e) => setInitialsFont(e.target.value as SignatureFontId)} style={{width:'100%'}}>
+            {(Object.keys(SIGNATURE_FONTS) as SignatureFontId[]).map(id => <option key={id} value={id}>{SIGNATURE_FONTS[id].label}</option>)}
+          </select>
+          <input
+            dir="auto" placeholder="Your initials" value={initials} autoComplete="off" spellCheck="false"
+            onChange={(e) => setInitials(sanitizeInitials(e.target.value))}
+            style={{marginTop:8, width:'100%', boxSizing:'border-box', fontFamily:`${signatureFontFamily(initialsFont)}, cursive`, fontSize:20}}
+          />
+        </div>
+      )}
+      {kind === 'text' && (
+        <div style={{marginTop:8}}>
+          <textarea dir="auto" rows={2} placeholder="Text to place" value={text}
+            onChange={(e) => setText(sanitizeStampText(e.target.value))} style={{width:'100%', boxSizing:'border-box'}} />
+          <TextStyleEditor style={textStyle} onChange={setTextStyle} />
+        </div>
+      )}
+      {kind === 'date' && (
+        <div style={{marginTop:8}}>
+          <div style={{display:'flex', gap:8}}>
+            <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)} style={{flex:1}}>
+              {(Object.keys(DATE_FORMATS) as DateFormat[]).map(f => <option key={f} value={f}>{DATE_FORMATS[f]}</option>)}
+            </select>
+            <select value={locale} onChange={(e) => setLocale(e.target.value)} disabled={dateFormat === 'iso'}>
+              {LOCALES.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </div>
+          <TextStyleEditor style={dateStyle} onChange={setDateStyle} />
+          <div className="hint" style={{marginTop:4}}>
+            Filled in with the signing date on export, e.g. {formatStampDate(new Date(), dateFormat, locale)}
+          </div>
+        </div>
+      )}
+      {kind === 'mark' && (
+        <div style={{marginTop:8, display:'flex', gap:12, alignItems:'center'}}>
+          <label><input type="radio" checked={mark === 'check'} onChange={() => setMark('check')} /> ✓ Check</label>
+          <label><input type="radio" checked={mark === 'cross'} onChange={() => setMark('cross')} /> ✗ Cross</label>
+          <input type="color" value={markColor} title="Mark color" onChange={(e) => setMarkColor(e.target.value)} />
+        </div>
+      )}
+      <div style={{marginTop:8}}>
+        <button className="primary" onClick={useThis}>Use This</button>
+      </div>
+    </div>
+  )
+}
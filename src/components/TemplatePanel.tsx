@@ -0,0 +1,57 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useAppStore } from '../store/appStore'
+
+const smallButtonStyle: React.CSSProperties = { fontSize:11, padding:'2px 6px', minHeight:0, width:'auto', margin:0 }
+
+/** Saved placement layouts: save where things are placed now, apply a layout to another PDF, move layouts between browsers. */
+export const TemplatePanel: React.FC = () => {
+  const { hasDoc, placements, templates, loadPlacementTemplates, saveTemplate, applyTemplate, removeTemplate, exportTemplates, importTemplates } = useAppStore()
+  const [name, setName] = useState('')
+  const importInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => loadPlacementTemplates(), [])
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    saveTemplate(name)
+    setName('')
+  }
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) importTemplates(file)
+  }
+
+  return (
+    <div style={{marginTop:16, fontSize:12}}>
+      <div><strong>Templates</strong></div>
+      {templates.map(template => (
+        <div key={template.id} style={{display:'flex', alignItems:'center', gap:4, marginTop:4}}>
+          <span style={{flex:1, minWidth:0, overflow:'hidden', textOverflow:'ellipsis', whiteSpace:'nowrap'}} title={template.name}>
+            {template.name} <span className="hint">{template.placements.length} item{template.placements.length !== 1 ? 's' : ''}, {template.pageSizes.length} p.</span>
+          </span>
+          <button style={smallButtonStyle} disabled={!hasDoc} onClick={() => applyTemplate(template.id)}>Apply</button>
+          <button style={smallButtonStyle} title="Export" onClick={() => exportTemplates(template.id)}>⤓</button>
+          <button style={smallButtonStyle} title="Delete" onClick={() => {
+            if (confirm(`Delete the template "${template.name}"?`)) removeTemplate(template.id)
+          }}>🗑</button>
+        </div>
+      ))}
+      {hasDoc && (
+        <form onSubmit={handleSave} style={{display:'flex', gap:4, marginTop:8}}>
+          <input placeholder="Template name" value={name} maxLength={50} onChange={(e) => setName(e.target.value)} style={{flex:1, minWidth:0}} />
+          <button type="submit" style={smallButtonStyle} disabled={placements.length === 0}>Save layout</button>
+        </form>
+      )}
+      <div className="row" style={{marginTop:8}}>
+        <button style={smallButtonStyle} onClick={() => importInput.current?.click()}>Import</button>
+        {templates.length > 1 && <button style={smallButtonStyle} onClick={() => exportTemplates()}>Export all</button>}
+      </div>
+      <input ref={importInput} type="file" accept="application/json,.json" onChange={handleImport} style={{display:'none'}} />
+      <div className="hint" style={{marginTop:4}}>
+        Templates keep where signatures, initials and stamps go, not the signatures themselves; applying one places your current ones.
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import React from 'react'
+import { useAppStore } from '../store/appStore'
+import { VerifiedSignature } from '../modules/sign/verify'
+
+const Check: React.FC<{ ok: boolean, label: string }> = ({ ok, label }) => (
+  <div style={{color: ok ? '#166534' : '#b91c1c'}}>{ok ? '✓' : '✗'} {label}</div>
+)
+
+const SignatureRow: React.FC<{ signature: VerifiedSignature }> = ({ signature }) => (
+  <div style={{marginTop:8, padding:8, background:'#f9fafb', borderRadius:4, fontSize:12}}>
+    <div><strong>{signature.fieldName}</strong></div>
+    <div style={{wordBreak:'break-word', marginTop:2}}>{signature.signer || 'Unknown signer'}</div>
+    <div style={{color:'#6b7280', marginTop:2}}>
+      {signature.signingTime ? `Signed ${signature.signingTime.toLocaleString()}` : 'No signing time'}
+    </div>
+    {signature.error ? (
+      <div style={{color:'#b91c1c', marginTop:4}}>✗ {signature.error}</div>
+    ) : (
+      <div style={{marginTop:4}}>
+        <Check ok={signature.digestMatches} label={signature.digestMatches ? 'Signed content matches' : 'Signed content was altered'} />
+        <Check ok={signature.signatureValid} label={signature.signatureValid ? 'Signature is intact' : 'Signature does not verify'} />
+        <Check ok={!signature.modifiedAfter} label={signature.modifiedAfter ? 'Document changed after signing' : 'Covers the whole document'} />
+      </div>
+    )}
+  </div>
+)
+
+export const VerificationPanel: React.FC = () => {
+  const { hasDoc, existingSignatures } = useAppStore()
+  if (!hasDoc || existingSignatures.length === 0) return null
+
+  return (
+    <div style={{marginTop:16}}>
+      <div><strong>Existing signatures</strong></div>
+      {existingSignatures.map((s, i) => <SignatureRow key={`${s.fieldName}-${i}`} signature={s} />)}
+      <div className="hint" style={{marginTop:4}}>
+        Checked offline against the embedded certificates. Signer identity is not checked against trusted roots.
+      </div>
+    </div>
+  )
+}
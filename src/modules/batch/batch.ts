@@ -0,0 +1,109 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import type { Placement, PlacementContent } from '../../store/appStore'
+import { getPageTexts, loadPageLayouts, openPdf, passwordRequestFor } from '../pdf/render'
+import { AnchorOffset, anchorPlacementRect, findAnchors } from '../pdf/anchors'
+import { defaultPercentSize } from '../pdf/placementSize'
+import { PlacementTemplate, TemplatePlacement, templateMismatch } from '../storage/templates'
+import { ExportOptions, buildSignedPdf, downloadName } from '../write/export'
+import type { ZipEntry } from '../write/zip'
+
+/**
+ * Batch signing: the same placements on many PDFs, laid out by a template or found by anchor text in
+ * each file, signed one file at a time (so only one is open at once) and collected for a single ZIP.
+ */
+export type BatchRule =
+  | { kind: 'template', template: PlacementTemplate, contentOf: (p: TemplatePlacement) => PlacementContent }
+  | { kind: 'anchors', anchors: string[], offset: AnchorOffset, content: PlacementContent }
+export type BatchStatus = 'signed' | 'missing anchors' | 'failed'
+export type BatchResult = { file: string, status: BatchStatus, placements: number, output: string, details: string }
+
+export const MAX_BATCH_FILES = 100
+export const SUMMARY_FILE = 'summary.csv'
+// Same limit as a file opened on its own
+const MAX_FILE_SIZE = 50 * 1024 * 1024
+
+// Where the rule puts content in this document; an empty list when it finds nowhere
+async function batchPlacements(pdf: PDFDocumentProxy, rule: BatchRule): Promise<{ placements: Placement[], details: string }> {
+  const { sizes, geometries } = await loadPageLayouts(pdf)
+  const placedAt = new Date().toISOString()
+  if (rule.kind === 'template') {
+    const placements = rule.template.placements
+      .filter(p => p.pageIndex < sizes.length)
+      .map((p): Placement => ({ id: crypto.randomUUID(), pageIndex: p.pageIndex, rect: p.rect, placedAt, ...rule.contentOf(p) }))
+    return { placements, details: templateMismatch(rule.template, sizes) ?? '' }
+  }
+  const matches = findAnchors(await getPageTexts(pdf), geometries, rule.anchors)
+  const placements = await Promise.all(matches.map(async (match): Promise<Placement> => {
+    const g = geometries[match.pageIndex]
+    const rect = anchorPlacementRect(match, await defaultPercentSize(rule.content, g), rule.offset, g)
+    return { id: crypto.randomUUID(), pageIndex: match.pageIndex, rect, placedAt, ...rule.content }
+  }))
+  return { placements, details: matches.length ? '' : 'None of the anchors were found; scanned pages have no text to search' }
+}
+
+// `name`, or `name (2)` and so on when a file of that name is already in the archive
+const uniqueName = (taken: Set<string>, base: string, extension: string) => {
+  let name = `${base}${extension}`
+  for (let n = 2; taken.has(name); n++) name = `${base} (${n})${extension}`
+  taken.add(name)
+  return name
+}
+
+// Sign one file into `entries`, and report how it went
+async function signFile(file: File, rule: BatchRule, options: ExportOptions, entries: ZipEntry[], taken: Set<string>): Promise<BatchResult> {
+  const failed = (details: string): BatchResult => ({ file: file.name, status: 'failed', placements: 0, output: '', details })
+  if (file.size > MAX_FILE_SIZE) return failed('Larger than 50 MB')
+  let pdf: PDFDocumentProxy | null = null
+  try {
+    pdf = await openPdf(file)
+    const { placements, details } = await batchPlacements(pdf, rule)
+    if (placements.length === 0) {
+      return rule.kind === 'anchors' ? { ...failed(details), status: 'missing anchors' } : failed('Nothing to place on its pages')
+    }
+    const { bytes, auditRecord } = await buildSignedPdf(file, placements, options)
+    const base = downloadName(file.name)
+    const output = uniqueName(taken, `${base}-signed`, '.pdf')
+    entries.push({ name: output, bytes })
+    if (auditRecord) {
+      entries.push({ name: uniqueName(taken, `${base}-audit`, '.json'), bytes: new TextEncoder().encode(JSON.stringify(auditRecord, null, 2)) })
+    }
+    return { file: file.name, status: 'signed', placements: placements.length, output, details }
+  } catch (error) {
+    console.error(`Batch signing failed for ${file.name}:`, error)
+    return failed(passwordRequestFor(error) ? 'Password protected; sign it on its own' : 'The file may be corrupted or incompatible')
+  } finally {
+    pdf?.destroy()
+  }
+}
+
+/**
+ * Sign every file by the rule. Files that fail, or where the anchors aren't found, are left out of the
+ * archive and reported in its summary. `onProgress` is called after each file.
+ */
+export async function signBatch(
+  files: File[],
+  rule: BatchRule,
+  options: ExportOptions,
+  onProgress: (done: number, total: number) => void
+): Promise<{ entries: ZipEntry[], results: BatchResult[] }> {
+  const entries: ZipEntry[] = []
+  const results: BatchResult[] = []
+  const taken = new Set([SUMMARY_FILE])
+  for (const [i, file] of files.entries()) {
+    results.push(await signFile(file, rule, options, entries, taken))
+    onProgress(i + 1, files.length)
+  }
+  return { entries, results }
+}
+
+// Quoted, and kept from being read as a formula by spreadsheet apps
+const csvField = (value: string | number) => {
+  const text = String(value)
+  return `"${(/^[=+\-@\t\r]/.test(text) ? `'${text}` : text).replace(/"/g, '""')}"`
+}
+
+/** One line per file: its name, status, placements made, the signed file's name in the archive and why it wasn't signed. */
+export function summaryCsv(results: BatchResult[]): string {
+  const rows = [['File', 'Status', 'Placements', 'Output', 'Details'], ...results.map(r => [r.file, r.status, r.placements, r.output, r.details])]
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { parseEnvelope } from './envelope'
+
+const envelope = {
+  version: 1,
+  id: 'envelope',
+  documentName: 'contract.pdf',
+  signers: [{ id: 'a', name: 'Ada', email: 'ada@example.com', color: '#2563eb' }, { id: 'b', name: 'Bo', email: '', color: 'red' }],
+  fields: [
+    { id: 'f1', signerId: 'a', kind: 'signature', pageIndex: 0, rect: { x: 10, y: 10, w: 20, h: 5, extra: true } },
+    { id: 'f2', signerId: 'b', kind: 'initials', pageIndex: 1, rect: { x: 10, y: 10, w: 20, h: 5 } }
+  ],
+  completed: [{ signerId: 'a', completedAt: '2026-01-01T00:00:00.000Z' }]
+}
+const parse = (data: unknown) => parseEnvelope(JSON.stringify(data))
+
+describe('parseEnvelope', () => {
+  it('reads a valid envelope, keeping only known fields', () => {
+    const parsed = parse(envelope)
+    expect(parsed.signers.map(s => s.color)).toEqual(['#2563eb', '#2563eb'])
+    expect(parsed.fields[0].rect).toEqual({ x: 10, y: 10, w: 20, h: 5 })
+    expect(parsed.fields.map(f => f.kind)).toEqual(['signature', 'initials'])
+    expect(parsed.completed).toHaveLength(1)
+  })
+
+  it.each([
+    ['a field of an unknown signer', { id: 'f3', signerId: 'c', pageIndex: 0, rect: { x: 0, y: 0, w: 1, h: 1 } }],
+    ['a field off the page', { id: 'f3', signerId: 'a', pageIndex: 0, rect: { x: 90, y: 0, w: 101, h: 1 } }],
+    ['a field on no page', { id: 'f3', signerId: 'a', pageIndex: 0.5, rect: { x: 0, y: 0, w: 1, h: 1 } }],
+    ['a field that is not an object', 'f3'],
+    ['a null field', null]
+  ])('drops %s', (_, field) => {
+    expect(parse({ ...envelope, fields: [...envelope.fields, field] }).fields).toHaveLength(2)
+  })
+
+  it.each([
+    ['invalid JSON', '{'],
+    ['an array', '[]'],
+    ['another version', JSON.stringify({ ...envelope, version: 2 })],
+    ['no signers', JSON.stringify({ ...envelope, signers: [] })],
+    ['signers without ids', JSON.stringify({ ...envelope, signers: [null, 'b'] })]
+  ])('refuses %s', (_, json) => {
+    expect(() => parseEnvelope(json)).toThrow()
+  })
+})
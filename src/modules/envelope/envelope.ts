@@ -0,0 +1,86 @@
+import type { PercentRect } from '../../store/appStore'
+import { isArray, isHexColor, isPageIndex, isPercentRect, isRecord, percentRectOf } from '../storage/guards'
+
+/**
+ * Envelopes: one document signed by several people in turn, without a server. The sender assigns
+ * fields to each signer; the envelope travels as a JSON file next to the PDF, and each signer fills
+ * their fields in their own copy of the app and passes both files on to the next (see write/export.ts).
+ */
+export type Signer = {
+  id: string
+  name: string
+  email: string // A label only; nothing is sent
+  color: string // #rrggbb, for their fields and placements
+}
+export type EnvelopeFieldKind = 'signature' | 'initials'
+export type EnvelopeField = { id: string, signerId: string, kind: EnvelopeFieldKind, pageIndex: number, rect: PercentRect }
+export type Envelope = {
+  version: 1
+  id: string
+  documentName: string
+  signers: Signer[] // In signing order
+  fields: EnvelopeField[]
+  completed: { signerId: string, completedAt: string }[] // Signers who have finished, in order
+  documentSha256?: string // Of the PDF sent along, so a signer's copy can be checked against it
+}
+
+export const SIGNER_COLORS = ['#2563eb', '#db2777', '#059669', '#d97706', '#7c3aed', '#0891b2', '#dc2626', '#4b5563']
+export const MAX_SIGNERS = 10
+export const MAX_SIGNER_NAME_LENGTH = 50
+
+export const createEnvelope = (documentName: string): Envelope => ({
+  version: 1, id: crypto.randomUUID(), documentName, signers: [], fields: [], completed: []
+})
+
+/** First color no signer has yet, cycling once all are taken. */
+export const nextSignerColor = (signers: Signer[]) =>
+  SIGNER_COLORS.find(color => !signers.some(s => s.color === color)) ?? SIGNER_COLORS[signers.length % SIGNER_COLORS.length]
+
+/** Whose turn it is: the first signer in order who hasn't finished, or null once everyone has. */
+export const currentSigner = (envelope: Envelope): Signer | null =>
+  envelope.signers.find(signer => !envelope.completed.some(c => c.signerId === signer.id)) ?? null
+
+/** A signer's fields no placement has filled yet. */
+export const openEnvelopeFields = (envelope: Envelope, signerId: string, placements: { envelopeField?: string }[]) => {
+  const filled = new Set(placements.map(p => p.envelopeField))
+  return envelope.fields.filter(field => field.signerId === signerId && !filled.has(field.id))
+}
+
+/** Read an envelope file, checking its shape; throws with a message to show when it isn't one. */
+export function parseEnvelope(json: string): Envelope {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('This file is not an envelope (invalid JSON).')
+  }
+  if (!isRecord(data) || data.version !== 1 || typeof data.id !== 'string' || !isArray(data.signers) || !isArray(data.fields) || !isArray(data.completed)) {
+    throw new Error('This file is not an envelope.')
+  }
+  const signers: Signer[] = data.signers.slice(0, MAX_SIGNERS).map(item => {
+    const s = isRecord(item) ? item : {}
+    return {
+      id: String(s.id ?? ''),
+      name: Array.from(String(s.name ?? '')).slice(0, MAX_SIGNER_NAME_LENGTH).join(''),
+      email: Array.from(String(s.email ?? '')).slice(0, 100).join(''),
+      color: isHexColor(s.color) ? s.color : SIGNER_COLORS[0]
+    }
+  })
+  const ids = new Set(signers.map(s => s.id))
+  if (signers.length === 0 || ids.size !== signers.length || ids.has('')) throw new Error('The envelope has no valid signers.')
+  const fields = data.fields.flatMap((f): EnvelopeField[] => {
+    if (!isRecord(f) || typeof f.signerId !== 'string' || !ids.has(f.signerId) || typeof f.id !== 'string' || !isPageIndex(f.pageIndex) || !isPercentRect(f.rect)) return []
+    return [{ id: f.id, signerId: f.signerId, kind: f.kind === 'initials' ? 'initials' : 'signature', pageIndex: f.pageIndex, rect: percentRectOf(f.rect) }]
+  })
+  const completed = data.completed.flatMap(c =>
+    isRecord(c) && typeof c.signerId === 'string' && ids.has(c.signerId) ? [{ signerId: c.signerId, completedAt: String(c.completedAt ?? '') }] : [])
+  return {
+    version: 1,
+    id: data.id,
+    documentName: String(data.documentName ?? ''),
+    signers,
+    fields,
+    completed,
+    documentSha256: typeof data.documentSha256 === 'string' ? data.documentSha256 : undefined
+  }
+}
@@ -0,0 +1,41 @@
+import type { FontSource } from './signatureFonts'
+
+/**
+ * Noto Sans Arabic, Hebrew, SC and KR: the fallbacks only some names need. This module is a chunk of its
+ * own that textFontRuns imports once a name has characters neither its font nor Noto Sans has; until then
+ * none of their file lists, unicode ranges or stylesheets are loaded.
+ */
+
+// Only their own script: SC and KR in their numbered slices, not the single-file CJK subsets, nor the
+// Latin ones Noto Sans already covers
+const FONT_FILES = import.meta.glob<string>([
+  '/node_modules/@fontsource/noto-sans-arabic/files/noto-sans-arabic-arabic-400-normal.woff',
+  '/node_modules/@fontsource/noto-sans-hebrew/files/noto-sans-hebrew-hebrew-400-normal.woff',
+  '/node_modules/@fontsource/noto-sans-sc/files/noto-sans-sc-[0-9]*-400-normal.woff',
+  '/node_modules/@fontsource/noto-sans-kr/files/noto-sans-kr-[0-9]*-400-normal.woff'
+], { query: '?url', import: 'default', eager: true, exhaustive: true })
+const UNICODE_RANGES = import.meta.glob<Record<string, string>>(
+  '/node_modules/@fontsource/{noto-sans-arabic,noto-sans-hebrew,noto-sans-sc,noto-sans-kr}/unicode.json',
+  { import: 'default', exhaustive: true }
+)
+const STYLES = import.meta.glob([
+  '/node_modules/@fontsource/noto-sans-arabic/arabic-400.css',
+  '/node_modules/@fontsource/noto-sans-hebrew/hebrew-400.css',
+  '/node_modules/@fontsource/noto-sans-{sc,kr}/400.css'
+], { exhaustive: true })
+
+const STYLE_FILES: Record<string, string> = {
+  'noto-sans-arabic': 'arabic-400.css',
+  'noto-sans-hebrew': 'hebrew-400.css',
+  'noto-sans-sc': '400.css',
+  'noto-sans-kr': '400.css'
+}
+
+/** A fallback package's unicode ranges and files, once its stylesheet is on the page for the preview. */
+export async function loadFallbackFont(pkg: string): Promise<FontSource> {
+  const [ranges] = await Promise.all([
+    UNICODE_RANGES[`/node_modules/@fontsource/${pkg}/unicode.json`](),
+    STYLES[`/node_modules/@fontsource/${pkg}/${STYLE_FILES[pkg]}`]()
+  ])
+  return { ranges, files: FONT_FILES }
+}
@@ -0,0 +1,36 @@
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { loadFallbackFont } from './fallbackFonts'
+import { textFontRuns } from './signatureFonts'
+
+vi.mock('./fallbackFonts', async importOriginal => {
+  const original = await importOriginal<typeof import('./fallbackFonts')>()
+  return { loadFallbackFont: vi.fn(original.loadFallbackFont) }
+})
+
+// Font URLs are paths from the project root, as the dev server serves them
+vi.stubGlobal('fetch', async (url: string) => new Response(await readFile(join(process.cwd(), url))))
+
+const families = async (text: string) => (await textFontRuns(text, 'dancing-script')).map(run => run.subset.family)
+
+beforeEach(() => {
+  vi.mocked(loadFallbackFont).mockClear()
+})
+
+describe('textFontRuns', () => {
+  it('sets a Latin name in the handwriting font alone', async () => {
+    expect(await families('Ada Lovelace')).toEqual(['Dancing Script'])
+    expect(loadFallbackFont).not.toHaveBeenCalled()
+  })
+
+  it('falls back to the bundled Noto Sans for Cyrillic', async () => {
+    expect(await families('Ада')).toEqual(['Noto Sans'])
+    expect(loadFallbackFont).not.toHaveBeenCalled()
+  })
+
+  it('imports the other fallbacks only for characters the bundled fonts lack', async () => {
+    expect(await families('Ada علي')).toEqual(['Dancing Script', 'Noto Sans Arabic'])
+    expect(vi.mocked(loadFallbackFont).mock.calls).toEqual([['noto-sans-arabic']])
+  })
+})
@@ -0,0 +1,191 @@
+import '@fontsource/dancing-script/400.css'
+import '@fontsource/great-vibes/400.css'
+import '@fontsource/caveat/400.css'
+import '@fontsource/noto-sans/latin-400.css'
+import '@fontsource/noto-sans/latin-ext-400.css'
+import '@fontsource/noto-sans/cyrillic-400.css'
+import '@fontsource/noto-sans/cyrillic-ext-400.css'
+import '@fontsource/noto-sans/greek-400.css'
+import '@fontsource/noto-sans/greek-ext-400.css'
+import '@fontsource/noto-sans/vietnamese-400.css'
+import fontkit, { Font } from '@pdf-lib/fontkit'
+import type { TypedSignature } from '../../store/appStore'
+import { FontSubset, TextRun, parseUnicodeRange, splitTextRuns, subsetCovers } from './textRuns'
+
+/**
+ * Handwriting fonts bundled with the app (SIL Open Font License, via Fontsource).
+ * The same files back the on-screen preview (CSS @font-face) and the PDF export (pdf-lib + fontkit),
+ * so a typed signature looks identical on every machine.
+ *
+ * Fontsource splits each font into unicode-range subsets (latin, latin-ext, cyrillic, numbered CJK
+ * slices...). Only the subsets a name actually uses are downloaded and embedded.
+ */
+export type SignatureFontId = 'dancing-script' | 'great-vibes' | 'caveat'
+
+export type SignatureFont = {
+  label: string
+  family: string // CSS font-family registered by the Fontsource stylesheet
+  pkg: string // Fontsource package name
+}
+
+export const SIGNATURE_FONTS: Record<SignatureFontId, SignatureFont> = {
+  'dancing-script': { label: 'Dancing Script', family: 'Dancing Script', pkg: 'dancing-script' },
+  'great-vibes': { label: 'Great Vibes', family: 'Great Vibes', pkg: 'great-vibes' },
+  'caveat': { label: 'Caveat', family: 'Caveat', pkg: 'caveat' }
+}
+
+// Tried in order for characters the handwriting font doesn't have (accents it lacks, Cyrillic, Arabic, Hebrew, CJK).
+// Those after Noto Sans are `lazy`: they come from fallbackFonts.ts, imported when a name first needs one
+type FallbackFont = { family: string, pkg: string, lazy?: boolean }
+const FALLBACK_FONTS: FallbackFont[] = [
+  { family: 'Noto Sans', pkg: 'noto-sans' },
+  { family: 'Noto Sans Arabic', pkg: 'noto-sans-arabic', lazy: true },
+  { family: 'Noto Sans Hebrew', pkg: 'noto-sans-hebrew', lazy: true },
+  { family: 'Noto Sans SC', pkg: 'noto-sans-sc', lazy: true },
+  { family: 'Noto Sans KR', pkg: 'noto-sans-kr', lazy: true }
+]
+
+// Text stamps can also be set in plain Noto Sans
+export type TextFontId = 'sans' | SignatureFontId
+
+export const TEXT_FONTS: Record<TextFontId, SignatureFont> = {
+  'sans': { label: 'Sans', family: 'Noto Sans', pkg: 'noto-sans' },
+  ...SIGNATURE_FONTS
+}
+
+export const DEFAULT_SIGNATURE_FONT: SignatureFontId = 'dancing-script'
+
+// Layout shared by the preview image and the exported text: font size and padding around the text, in px/pt
+export const TYPED_SIGNATURE_LAYOUT = { size: 48, padding: 8, color: '#111827' }
+
+/** CSS font-family list for showing a typed name with the same fallbacks as the export. */
+export function signatureFontFamily(id: TextFontId) {
+  return [TEXT_FONTS[id], ...FALLBACK_FONTS].map(f => `"${f.family}"`).join(', ')
+}
+
+// Subset name -> unicode-range of a package (from its unicode.json), and WOFF file URLs by path
+export type FontSource = { ranges: Record<string, string>, files: Record<string, string> }
+
+// WOFF file URLs of the subsets the bundled fonts are used for, e.g. /node_modules/@fontsource/caveat/files/caveat-latin-400-normal.woff
+const FONT_FILES = import.meta.glob<string>([
+  '/node_modules/@fontsource/{caveat,dancing-script,great-vibes}/files/*-400-normal.woff',
+  '/node_modules/@fontsource/noto-sans/files/noto-sans-{latin,latin-ext,cyrillic,cyrillic-ext,greek,greek-ext,vietnamese}-400-normal.woff'
+], { query: '?url', import: 'default', eager: true, exhaustive: true })
+const UNICODE_RANGES = import.meta.glob<Record<string, string>>(
+  '/node_modules/@fontsource/{caveat,dancing-script,great-vibes,noto-sans}/unicode.json',
+  { import: 'default', exhaustive: true }
+)
+
+const loadSource = async ({ pkg, lazy }: FallbackFont): Promise<FontSource> => lazy
+  ? (await import('./fallbackFonts')).loadFallbackFont(pkg)
+  : { ranges: await UNICODE_RANGES[`/node_modules/@fontsource/${pkg}/unicode.json`](), files: FONT_FILES }
+
+const subsetCache = new Map<string, Promise<FontSubset[]>>()
+
+// Subsets of one package in its unicode.json order; numbered CJK slices are named "[n]" there.
+// Subsets without a file (those the font isn't used for) are left out
+function loadSubsets(font: FallbackFont): Promise<FontSubset[]> {
+  const { family, pkg } = font
+  let subsets = subsetCache.get(pkg)
+  if (!subsets) {
+    subsets = loadSource(font).then(({ ranges, files }) =>
+      Object.entries(ranges).flatMap(([name, range]) => {
+        const file = `${pkg}-${name.replace(/^\[(\d+)\]$/, '$1')}-400-normal.woff`
+        const url = files[`/node_modules/@fontsource/${pkg}/files/${file}`]
+        return url ? [{ family, url, ranges: parseUnicodeRange(range) }] : []
+      })
+    )
+    subsets.catch(() => subsetCache.delete(pkg))
+    subsetCache.set(pkg, subsets)
+  }
+  return subsets
+}
+
+/**
+ * Font runs for one line of text, in visual order: the chosen font first, then the fallbacks.
+ * A unicode-range only says a subset may contain a character, so like the browser we open the file and
+ * move on to the next font when the glyph isn't really there.
+ */
+export async function textFontRuns(text: string, fontId: TextFontId): Promise<TextRun[]> {
+  const font = TEXT_FONTS[fontId]
+  const pending: FallbackFont[] = [font, ...FALLBACK_FONTS.filter(f => f.pkg !== font.pkg)]
+  const stack: FontSubset[] = []
+  const parsed = new Map<string, Font>()
+  const hasGlyph = (subset: FontSubset, cp: number) => subsetCovers(subset, cp) && !!parsed.get(subset.url)?.hasGlyphForCodePoint(cp)
+
+  for (const cp of new Set(Array.from(text, ch => ch.codePointAt(0)!))) {
+    for (;;) {
+      const candidate = stack.find(s => subsetCovers(s, cp) && (!parsed.has(s.url) || hasGlyph(s, cp)))
+      if (candidate && parsed.has(candidate.url)) break
+      if (candidate) {
+        parsed.set(candidate.url, fontkit.create(await loadSignatureFontBytes(candidate.url)))
+        continue
+      }
+      // Only load the next fallback while the character is still uncovered
+      const font = pending.shift()
+      if (!font) break
+      stack.push(...await loadSubsets(font))
+    }
+  }
+  return splitTextRuns(text, stack, hasGlyph)
+}
+
+export const typedSignatureRuns = (typed: TypedSignature) => textFontRuns(typed.text, typed.font)
+
+/**
+ * PNG preview of a typed signature for the viewer, laid out run by run like the exported text
+ * (see typedSignatureBox) and rendered at 2x so it stays sharp when placed.
+ */
+export async function typedSignaturePreview(typed: TypedSignature): Promise<string> {
+  const { size, padding, color } = TYPED_SIGNATURE_LAYOUT
+  const runs = await typedSignatureRuns(typed)
+  const cssFonts = runs.map(run => `${size}px "${run.subset.family}"`)
+  await Promise.all(runs.map((run, i) => document.fonts.load(cssFonts[i], run.text)))
+  const c = document.createElement('canvas')
+  const ctx = c.getContext('2d')!
+  const metrics = runs.map((run, i) => {
+    ctx.font = cssFonts[i]
+    return ctx.measureText(run.text)
+  })
+  const width = metrics.reduce((sum, m) => sum + m.width, 0)
+  const ascent = Math.max(...metrics.map(m => m.fontBoundingBoxAscent))
+  const descent = Math.max(...metrics.map(m => m.fontBoundingBoxDescent))
+  const scale = 2
+  c.width = Math.ceil((width + padding * 2) * scale)
+  c.height = Math.ceil((ascent + descent + padding * 2) * scale)
+  ctx.scale(scale, scale)
+
+  // Set text properties securely (resizing the canvas reset them)
+  ctx.fillStyle = color
+  ctx.textBaseline = 'alphabetic'
+  ctx.textAlign = 'left'
+
+  // Render text safely (canvas API automatically escapes content); runs are in visual order
+  let x = padding
+  runs.forEach((run, i) => {
+    ctx.font = cssFonts[i]
+    ctx.direction = run.rtl ? 'rtl' : 'ltr'
+    ctx.fillText(run.text, x, padding + ascent)
+    x += metrics[i].width
+  })
+  return c.toDataURL('image/png')
+}
+
+const fontCache = new Map<string, Promise<Uint8Array>>()
+
+/** Fetch a bundled font file once per session. */
+export function loadSignatureFontBytes(url: string): Promise<Uint8Array> {
+  let bytes = fontCache.get(url)
+  if (!bytes) {
+    bytes = fetch(url)
+      .then(res => {
+        if (!res.ok) throw new Error(`Failed to load font ${url}: ${res.status}`)
+        return res.arrayBuffer()
+      })
+      .then(buffer => new Uint8Array(buffer))
+    // Let a failed fetch be retried on the next export
+    bytes.catch(() => fontCache.delete(url))
+    fontCache.set(url, bytes)
+  }
+  return bytes
+}
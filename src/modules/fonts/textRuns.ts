@@ -0,0 +1,82 @@
+/**
+ * Split a typed name into runs that share one font file and one direction, in visual (left-to-right) order.
+ *
+ * Fonts are tried in stack order per character, like a CSS font-family list with unicode-range subsets.
+ * Reordering is a simplified Unicode bidi algorithm at run granularity, which is enough for a single-line
+ * name: glyph order inside an RTL run (and Arabic joining) is left to the shaper (fontkit / the browser).
+ */
+
+export type FontSubset = {
+  family: string // CSS font-family that also covers this subset
+  url: string // WOFF file of this subset
+  ranges: [number, number][] // Code points covered, from the Fontsource unicode-range
+}
+
+export type TextRun = { text: string, subset: FontSubset, rtl: boolean }
+
+/** Parse a CSS unicode-range list ("U+0000-00FF,U+0131,...") into inclusive code point ranges. */
+export function parseUnicodeRange(value: string): [number, number][] {
+  return value.split(',').map(part => {
+    const [start, end] = part.trim().replace(/^U\+/i, '').split('-')
+    return [parseInt(start, 16), parseInt(end ?? start, 16)] as [number, number]
+  })
+}
+
+export const subsetCovers = (subset: FontSubset, cp: number) => subset.ranges.some(([start, end]) => cp >= start && cp <= end)
+
+const RTL = /[\p{Script=Hebrew}\p{Script=Arabic}]/u
+const STRONG = /[\p{L}\p{N}]/u
+// Combining marks and joiners belong to the character before them
+const ATTACHED = /[\p{M}\u200C\u200D]/u
+// Characters that don't pick a font of their own if the current one can draw them
+const NEUTRAL = /[^\p{L}\p{N}]/u
+
+type Direction = 'ltr' | 'rtl' | null
+
+const directionOf = (ch: string): Direction => RTL.test(ch) ? 'rtl' : STRONG.test(ch) ? 'ltr' : null
+
+// `covers` decides whether a subset can draw a code point; by default its unicode-range is trusted
+export function splitTextRuns(text: string, stack: FontSubset[], covers = subsetCovers): TextRun[] {
+  const chars = Array.from(text)
+  const strong = chars.map(directionOf)
+  const base = strong.find(d => d !== null) ?? 'ltr'
+
+  // Neutrals between two characters of the same direction take it, otherwise the paragraph direction
+  const directions: Direction[] = []
+  strong.forEach((d, i) => {
+    if (d) directions.push(d)
+    else if (i > 0 && ATTACHED.test(chars[i])) directions.push(directions[i - 1])
+    else {
+      const before = strong.slice(0, i).reverse().find(x => x !== null) ?? base
+      const after = strong.slice(i + 1).find(x => x !== null) ?? base
+      directions.push(before === after ? before : base)
+    }
+  })
+
+  const runs: TextRun[] = []
+  chars.forEach((ch, i) => {
+    const cp = ch.codePointAt(0)!
+    const rtl = directions[i] === 'rtl'
+    const last = runs[runs.length - 1]
+    const keep = last && last.rtl === rtl && NEUTRAL.test(ch) && covers(last.subset, cp)
+    // Characters no bundled font covers fall back to the first font (and show as missing glyphs)
+    const subset = keep ? last.subset : stack.find(s => covers(s, cp)) ?? stack[0]
+    if (last && last.subset === subset && last.rtl === rtl) last.text += ch
+    else runs.push({ text: ch, subset, rtl })
+  })
+
+  // Embedding levels per run (LTR paragraph: L=0, R=1; RTL paragraph: R=1, L=2), then reverse
+  // every maximal sequence at or above each level from the highest down to 1
+  const levels = runs.map(r => base === 'ltr' ? (r.rtl ? 1 : 0) : (r.rtl ? 1 : 2))
+  const order = runs.map((_, i) => i)
+  for (let level = Math.max(0, ...levels); level >= 1; level--) {
+    for (let i = 0; i < order.length; i++) {
+      if (levels[order[i]] < level) continue
+      let j = i
+      while (j + 1 < order.length && levels[order[j + 1]] >= level) j++
+      order.splice(i, j - i + 1, ...order.slice(i, j + 1).reverse())
+      i = j
+    }
+  }
+  return order.map(i => runs[i])
+}
@@ -0,0 +1,40 @@
+import type { PercentRect } from '../../store/appStore'
+import { PageGeometry, displaySizeInPoints } from './geometry'
+import { PageTextItem, boundingRect, findTextMatches, phrasePattern } from './textSearch'
+
+/**
+ * Anchor-text auto-placement: find strings such as "Signature:" or tags such as {{sig1}} in the text
+ * pdf.js extracts from each page, then place content at an offset from every match.
+ */
+
+export type AnchorMatch = { pageIndex: number, text: string, rect: PercentRect }
+// Where placements go relative to a match: after it or over it, shifted by x/y points (right/down)
+export type AnchorOffset = { from: 'end' | 'start', x: number, y: number }
+
+export const DEFAULT_ANCHORS = ['Signature:', 'Sign here', '{{sig*}}', '\\s*\\']
+
+// Anchors match like search phrases, and `*` stands for any non-space characters
+const anchorRegExp = (anchor: string) => new RegExp(anchor.split('*').map(phrasePattern).join('\\S*?'), 'giu')
+
+/** Every match of the anchors on every page, in page order; overlapping matches count once. */
+export function findAnchors(texts: PageTextItem[][], geometries: PageGeometry[], anchors: string[]): AnchorMatch[] {
+  const patterns = anchors.map(a => a.trim()).filter(Boolean).map(anchorRegExp)
+  return findTextMatches(texts, geometries, patterns)
+    .map(({ pageIndex, text, rects }) => ({ pageIndex, text, rect: boundingRect(rects) }))
+}
+
+/** Rect for content of the given size (display percentages) placed at `offset` from a match, kept on the page. */
+export function anchorPlacementRect(match: AnchorMatch, size: { w: number, h: number }, offset: AnchorOffset, g: PageGeometry): PercentRect {
+  const { width, height } = displaySizeInPoints(g)
+  const dx = (offset.x / width) * 100
+  const dy = (offset.y / height) * 100
+  // Bottoms line up, so a signature sits on the same line as the anchor text
+  const x = (offset.from === 'end' ? match.rect.x + match.rect.w : match.rect.x) + dx
+  const y = match.rect.y + match.rect.h - size.h + dy
+  return {
+    x: Math.max(0, Math.min(x, 100 - size.w)),
+    y: Math.max(0, Math.min(y, 100 - size.h)),
+    w: size.w,
+    h: size.h
+  }
+}
@@ -0,0 +1,179 @@
+import forge from 'node-forge'
+import { describe, expect, it } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs'
+import { decryptPdf, encryptDocument, keepProtection, readProtection } from './encryption'
+
+// Printing and copying denied, everything else allowed
+const PERMISSIONS = -1044
+const TITLE = 'Quarterly figures'
+
+/* A revision 3 (RC4) or 4 (AESV2) file, written from the specification independently of encryption.ts */
+
+const PADDING = forge.util.hexToBytes('28BF4E5E4E758A4164004E56FFFA01082E2E00B6D0683E802F0CA9FE6453697A')
+const ID = '0123456789abcdef'
+const md5 = (data: string) => forge.md.md5.create().update(data).digest().getBytes()
+const pad = (password: string) => (password + PADDING).slice(0, 32)
+const xor = (key: string, value: number) => Array.from(key, c => String.fromCharCode(c.charCodeAt(0) ^ value)).join('')
+const le32 = (value: number) => String.fromCharCode(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff)
+const hex = (data: string) => `<${forge.util.bytesToHex(data)}>`
+
+const rc4 = (key: string, data: string) => {
+  const s = Array.from({ length: 256 }, (_, i) => i)
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key.charCodeAt(i % key.length)) & 0xff
+    const t = s[i]; s[i] = s[j]; s[j] = t
+  }
+  let out = ''
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff
+    j = (j + s[i]) & 0xff
+    const t = s[i]; s[i] = s[j]; s[j] = t
+    out += String.fromCharCode(data.charCodeAt(n) ^ s[(s[i] + s[j]) & 0xff])
+  }
+  return out
+}
+
+const legacyPdf = (method: 'RC4' | 'AESV2', userPassword: string, ownerPassword: string) => {
+  // Algorithm 3: /O
+  let hash = md5(pad(ownerPassword))
+  for (let i = 0; i < 50; i++) hash = md5(hash)
+  let O = rc4(hash.slice(0, 16), pad(userPassword))
+  for (let i = 1; i <= 19; i++) O = rc4(xor(hash.slice(0, 16), i), O)
+  // Algorithm 2: file key; algorithm 5: /U
+  let fileKey = md5(pad(userPassword) + O + le32(PERMISSIONS) + ID)
+  for (let i = 0; i < 50; i++) fileKey = md5(fileKey)
+  let U = rc4(fileKey, md5(PADDING + ID))
+  for (let i = 1; i <= 19; i++) U = rc4(xor(fileKey, i), U)
+  // Algorithm 1: per-object keys
+  const encrypt = (objectNumber: number, data: string) => {
+    const key = md5(fileKey + String.fromCharCode(objectNumber, 0, 0, 0, 0) + (method === 'AESV2' ? 'sAlT' : ''))
+    if (method === 'RC4') return rc4(key, data)
+    const iv = forge.random.getBytesSync(16)
+    const cipher = forge.cipher.createCipher('AES-CBC', key)
+    cipher.start({ iv })
+    cipher.update(forge.util.createBuffer(data))
+    cipher.finish()
+    return iv + cipher.output.getBytes()
+  }
+  const content = encrypt(4, 'BT /F1 24 Tf 20 100 Td (Hello) Tj ET')
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 200 200] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    `<< /Title ${hex(encrypt(6, TITLE))} >>`,
+    method === 'RC4'
+      ? `<< /Filter /Standard /V 2 /R 3 /Length 128 /O ${hex(O)} /U ${hex(U + '\0'.repeat(16))} /P ${PERMISSIONS} >>`
+      : `<< /Filter /Standard /V 4 /R 4 /Length 128 /CF << /StdCF << /CFM /AESV2 /AuthEvent /DocOpen /Length 16 >> >> /StmF /StdCF /StrF /StdCF /O ${hex(O)} /U ${hex(U + '\0'.repeat(16))} /P ${PERMISSIONS} >>`
+  ]
+  let pdf = '%PDF-1.6\n'
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`
+    return offset
+  })
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R /Encrypt 7 0 R /ID [${hex(ID)} ${hex(ID)}] >>\nstartxref\n${xref}\n%%EOF\n`
+  return Uint8Array.from(pdf, c => c.charCodeAt(0))
+}
+
+const r6Pdf = async (userPassword: string, ownerPassword: string, permissions?: number) => {
+  const pdfDoc = await PDFDocument.create()
+  pdfDoc.addPage([200, 200]).drawText('Hello')
+  pdfDoc.setTitle(TITLE)
+  await encryptDocument(pdfDoc, { userPassword, ownerPassword, permissions })
+  return pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false })
+}
+
+const titleOf = async (bytes: Uint8Array) => (await PDFDocument.load(bytes, { updateMetadata: false })).getTitle()
+
+// Rewrite a decrypted file with the protection it was opened with, as the export does
+const rewrite = async (bytes: Uint8Array, password: string, ownerPassword?: string) => {
+  const { bytes: plain, protection } = await decryptPdf(bytes, password)
+  const pdfDoc = await PDFDocument.load(plain, { updateMetadata: false })
+  await keepProtection(pdfDoc, protection!, ownerPassword)
+  return pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false })
+}
+
+describe('decryptPdf', () => {
+  it.each(['RC4', 'AESV2'] as const)('opens a %s file with its user password', async method => {
+    const decrypted = await decryptPdf(legacyPdf(method, 'user', 'owner'), 'user')
+    expect(decrypted).toMatchObject({ permissions: PERMISSIONS, ownerAccess: false })
+    expect(decrypted.protection).toEqual({ kind: 'passwords', userPassword: 'user', ownerPassword: null, permissions: PERMISSIONS })
+    expect(await titleOf(decrypted.bytes)).toBe(TITLE)
+    expect(Buffer.from(decrypted.bytes).includes('(Hello) Tj')).toBe(true)
+  })
+
+  it.each(['RC4', 'AESV2'] as const)('opens a %s file with its owner password and recovers the user password', async method => {
+    const decrypted = await decryptPdf(legacyPdf(method, 'user', 'owner'), 'owner')
+    expect(decrypted).toMatchObject({ permissions: PERMISSIONS, ownerAccess: true })
+    expect(decrypted.protection).toEqual({ kind: 'passwords', userPassword: 'user', ownerPassword: 'owner', permissions: PERMISSIONS })
+    expect(await titleOf(decrypted.bytes)).toBe(TITLE)
+  })
+
+  it('opens a file without a user password with an empty one, without owner access', async () => {
+    const decrypted = await decryptPdf(legacyPdf('AESV2', '', 'owner'), '')
+    expect(decrypted.ownerAccess).toBe(false)
+    expect(await titleOf(decrypted.bytes)).toBe(TITLE)
+  })
+
+  it('refuses a wrong password', async () => {
+    await expect(decryptPdf(legacyPdf('RC4', 'user', 'owner'), 'guess')).rejects.toThrow('Incorrect password.')
+    await expect(decryptPdf(await r6Pdf('user', 'owner'), 'guess')).rejects.toThrow('Incorrect password.')
+  })
+})
+
+describe('encryptDocument', () => {
+  it('protects with distinct user and owner passwords', async () => {
+    const bytes = await r6Pdf('user', 'owner', PERMISSIONS)
+    expect(Buffer.from(bytes).includes(TITLE)).toBe(false)
+    const asUser = await decryptPdf(bytes, 'user')
+    expect(asUser).toMatchObject({ permissions: PERMISSIONS, ownerAccess: false })
+    expect(await titleOf(asUser.bytes)).toBe(TITLE)
+    const asOwner = await decryptPdf(bytes, 'owner')
+    expect(asOwner).toMatchObject({ permissions: PERMISSIONS, ownerAccess: true })
+    expect(await titleOf(asOwner.bytes)).toBe(TITLE)
+  })
+
+  it('writes keys other readers derive from the passwords', async () => {
+    const bytes = await r6Pdf('user', 'owner', PERMISSIONS)
+    for (const password of ['user', 'owner']) {
+      const pdf = await getDocument({ data: bytes.slice(), password, isEvalSupported: false }).promise
+      expect((await pdf.getMetadata()).info).toMatchObject({ Title: TITLE })
+      await pdf.destroy()
+    }
+    await expect(getDocument({ data: bytes.slice(), password: 'guess', isEvalSupported: false }).promise).rejects.toThrow('Incorrect Password')
+  })
+})
+
+describe('keepProtection', () => {
+  it('keeps both passwords of an AES-256 file opened with the user password', async () => {
+    const bytes = await rewrite(await r6Pdf('user', 'owner', PERMISSIONS), 'user')
+    expect(await decryptPdf(bytes, 'user')).toMatchObject({ permissions: PERMISSIONS, ownerAccess: false })
+    expect(await decryptPdf(bytes, 'owner')).toMatchObject({ permissions: PERMISSIONS, ownerAccess: true })
+  })
+
+  it('keeps the owner password of an AES-256 file that opens without a password', async () => {
+    const bytes = await rewrite(await r6Pdf('', 'owner', PERMISSIONS), '')
+    expect((await decryptPdf(bytes, '')).ownerAccess).toBe(false)
+    expect((await decryptPdf(bytes, 'owner')).ownerAccess).toBe(true)
+  })
+
+  it.each(['RC4', 'AESV2'] as const)('re-encrypts a %s file opened with the owner password under both of its passwords', async method => {
+    const bytes = await rewrite(legacyPdf(method, 'user', 'owner'), 'owner')
+    expect(await decryptPdf(bytes, 'user')).toMatchObject({ permissions: PERMISSIONS, ownerAccess: false })
+    expect(await decryptPdf(bytes, 'owner')).toMatchObject({ permissions: PERMISSIONS, ownerAccess: true })
+  })
+
+  it('needs an owner password for an older file opened with the user password', async () => {
+    const input = legacyPdf('AESV2', 'user', 'owner')
+    expect(await readProtection(input, 'user')).toMatchObject({ kind: 'passwords', ownerPassword: null })
+    await expect(rewrite(input, 'user')).rejects.toThrow("owner password of this PDF isn't known")
+    const bytes = await rewrite(input, 'user', 'chosen')
+    expect((await decryptPdf(bytes, 'user')).ownerAccess).toBe(false)
+    expect((await decryptPdf(bytes, 'chosen')).ownerAccess).toBe(true)
+  })
+})
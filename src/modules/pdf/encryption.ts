@@ -0,0 +1,488 @@
+import forge from 'node-forge'
+import {
+  PDFArray, PDFBool, PDFContext, PDFDict, PDFDocument, PDFHexString, PDFInvalidObject, PDFName, PDFNumber,
+  PDFObject, PDFObjectParser, PDFObjectStreamParser, PDFParser, PDFRawStream, PDFRef, PDFStream, PDFString, PDFWriter
+} from 'pdf-lib'
+import { binaryToBytes, bytesToBinary } from '../sign/pkcs12'
+
+/**
+ * PDF Standard security handler (ISO 32000-2 §7.6.4), revisions 2-6.
+ *
+ * pdf-lib cannot read or write encrypted files, so encrypted input is decrypted into a plain
+ * PDF before export, and output protection is applied to the finished document just before save.
+ * New output protection always uses AES-256 (revision 6); keeping the input's protection reuses its own.
+ */
+
+// Output password protection. Permissions is the raw /P value; omit it to allow everything.
+export type OutputEncryption = {
+  userPassword: string
+  ownerPassword: string
+  permissions?: number
+}
+
+// Revision 5/6 /Encrypt entries (binary strings) and the file key they wrap
+export type SecurityEntries = {
+  revision: number
+  fileKey: string
+  O: string
+  U: string
+  OE: string
+  UE: string
+  Perms: string
+  permissions: number
+  encryptMetadata: boolean
+}
+
+/**
+ * The protection of an input, as the output can keep it. Revision 5/6 entries are written back as they are,
+ * so both passwords keep working without being known. Older revisions are re-encrypted with AES-256 under
+ * the same passwords: opened with the owner password, the user password is recovered from /O; opened with
+ * the user password, the owner password can't be, and is null.
+ */
+export type OriginalProtection =
+  | { kind: 'entries', entries: SecurityEntries }
+  | { kind: 'passwords', userPassword: string, ownerPassword: string | null, permissions: number }
+
+export type DecryptedPdf = {
+  bytes: Uint8Array
+  permissions: number
+  // Opened with the owner password (or not encrypted at all)
+  ownerAccess: boolean
+  protection: OriginalProtection | null
+}
+
+type CryptMethod = 'None' | 'RC4' | 'AESV2' | 'AESV3'
+
+type SecurityHandler = {
+  stringMethod: CryptMethod
+  streamMethod: CryptMethod
+  fileKey: string
+  encryptMetadata: boolean
+}
+
+// Every permission granted; bits 1-2 must be clear and bits 13-32 set (Table 22)
+const ALL_PERMISSIONS = -4
+
+const PASSWORD_PADDING = binaryToBytes(
+  '\x28\xBF\x4E\x5E\x4E\x75\x8A\x41\x64\x00\x4E\x56\xFF\xFA\x01\x08' +
+  '\x2E\x2E\x00\xB6\xD0\x68\x3E\x80\x2F\x0C\xA9\xFE\x64\x53\x69\x7A'
+)
+
+const md5 = (data: string) => forge.md.md5.create().update(data).digest().getBytes()
+const sha256 = (data: string) => forge.md.sha256.create().update(data).digest().getBytes()
+const sha384 = (data: string) => forge.md.sha384.create().update(data).digest().getBytes()
+const sha512 = (data: string) => forge.md.sha512.create().update(data).digest().getBytes()
+
+const randomBytes = (length: number) => bytesToBinary(crypto.getRandomValues(new Uint8Array(length)))
+
+const int32LE = (value: number) => String.fromCharCode(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff)
+
+const toHex = (binary: string) => forge.util.bytesToHex(binary).toUpperCase()
+
+const rc4 = (key: string, data: string): string => {
+  const s = new Uint8Array(256)
+  for (let i = 0; i < 256; i++) s[i] = i
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key.charCodeAt(i % key.length)) & 0xff
+    const t = s[i]; s[i] = s[j]; s[j] = t
+  }
+  const out = new Uint8Array(data.length)
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff
+    j = (j + s[i]) & 0xff
+    const t = s[i]; s[i] = s[j]; s[j] = t
+    out[n] = data.charCodeAt(n) ^ s[(s[i] + s[j]) & 0xff]
+  }
+  return bytesToBinary(out)
+}
+
+// AES-CBC. Revision 6 key wrapping uses whole blocks without padding; forge processes complete
+// blocks on update(), so skipping finish() leaves the padding out.
+const aesEncrypt = (key: string, iv: string, data: string, pad = true) => {
+  const cipher = forge.cipher.createCipher('AES-CBC', key)
+  cipher.start({ iv })
+  cipher.update(forge.util.createBuffer(data))
+  if (pad) cipher.finish()
+  return cipher.output.getBytes()
+}
+
+const aesDecrypt = (key: string, iv: string, data: string, pad = true) => {
+  const decipher = forge.cipher.createDecipher('AES-CBC', key)
+  decipher.start({ iv })
+  decipher.update(forge.util.createBuffer(data))
+  if (pad) decipher.finish()
+  return decipher.output.getBytes()
+}
+
+const ZERO_IV = '\0'.repeat(16)
+
+// Encrypted strings and streams carry their IV in the first 16 bytes
+const aesDecryptWithIv = (key: string, data: string) => {
+  if (data.length < 32) return ''
+  return aesDecrypt(key, data.slice(0, 16), data.slice(16))
+}
+
+const aesEncryptWithIv = (key: string, data: string) => {
+  const iv = randomBytes(16)
+  return iv + aesEncrypt(key, iv, data)
+}
+
+/* ---------- Key derivation ---------- */
+
+const padPassword = (password: string) => {
+  const bytes = new Uint8Array(32)
+  const raw = forge.util.encodeUtf8(password).slice(0, 32)
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i)
+  bytes.set(PASSWORD_PADDING.subarray(0, 32 - raw.length), raw.length)
+  return bytesToBinary(bytes)
+}
+
+type LegacyParams = { revision: number, keyLength: number, O: string, U: string, P: number, id: string, encryptMetadata: boolean }
+
+// Algorithm 2: file key from a (padded) user password
+const legacyFileKey = (paddedPassword: string, p: LegacyParams) => {
+  let hash = md5(
+    paddedPassword + p.O.slice(0, 32) + int32LE(p.P) + p.id +
+    (p.revision >= 4 && !p.encryptMetadata ? '\xff\xff\xff\xff' : '')
+  )
+  const n = p.revision === 2 ? 5 : p.keyLength
+  if (p.revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash.slice(0, n))
+  }
+  return hash.slice(0, n)
+}
+
+const xorKey = (key: string, value: number) => Array.from(key, c => String.fromCharCode(c.charCodeAt(0) ^ value)).join('')
+
+// Algorithms 4 and 5: the key is right if it reproduces /U
+const legacyUserKeyMatches = (key: string, p: LegacyParams) => {
+  if (p.revision === 2) return rc4(key, bytesToBinary(PASSWORD_PADDING)) === p.U.slice(0, 32)
+  let value = rc4(key, md5(bytesToBinary(PASSWORD_PADDING) + p.id))
+  for (let i = 1; i <= 19; i++) value = rc4(xorKey(key, i), value)
+  return value === p.U.slice(0, 16)
+}
+
+// Algorithm 7: recover the padded user password from /O using the owner password
+const legacyUserPasswordFromOwner = (ownerPassword: string, p: LegacyParams) => {
+  let hash = md5(padPassword(ownerPassword))
+  const n = p.revision === 2 ? 5 : p.keyLength
+  if (p.revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash)
+  }
+  const key = hash.slice(0, n)
+  if (p.revision === 2) return rc4(key, p.O.slice(0, 32))
+  let value = p.O.slice(0, 32)
+  for (let i = 19; i >= 0; i--) value = rc4(xorKey(key, i), value)
+  return value
+}
+
+// The padding of a recovered user password starts where the password ends
+const unpadPassword = (padded: string) => {
+  const padding = bytesToBinary(PASSWORD_PADDING)
+  let end = 0
+  while (!padding.startsWith(padded.slice(end))) end++
+  const raw = padded.slice(0, end)
+  try {
+    return forge.util.decodeUtf8(raw)
+  } catch {
+    return raw
+  }
+}
+
+// Algorithm 2.B (revision 6); revision 5 used a single SHA-256
+const hardenedHash = (password: string, salt: string, userKey: string, revision: number) => {
+  let k = sha256(password + salt + userKey)
+  if (revision === 5) return k
+  let e = ''
+  for (let round = 0; round < 64 || e.charCodeAt(e.length - 1) > round - 32; round++) {
+    e = aesEncrypt(k.slice(0, 16), k.slice(16, 32), (password + k + userKey).repeat(64), false)
+    let sum = 0
+    for (let i = 0; i < 16; i++) sum += e.charCodeAt(i)
+    k = [sha256, sha384, sha512][sum % 3](e)
+  }
+  return k.slice(0, 32)
+}
+
+// Revision 5/6 passwords are UTF-8, truncated to 127 bytes
+const aesPassword = (password: string) => forge.util.encodeUtf8(password.normalize('NFKC')).slice(0, 127)
+
+/* ---------- Reading ---------- */
+
+const stringBytes = (dict: PDFDict, key: string) => {
+  const value = dict.lookupMaybe(PDFName.of(key), PDFString, PDFHexString)
+  return value ? bytesToBinary(value.asBytes()) : ''
+}
+
+const cryptMethod = (dict: PDFDict, filterKey: 'StmF' | 'StrF', version: number): CryptMethod => {
+  if (version < 4) return 'RC4'
+  const name = dict.lookupMaybe(PDFName.of(filterKey), PDFName)?.decodeText() || 'Identity'
+  if (name === 'Identity') return 'None'
+  const filter = dict.lookupMaybe(PDFName.of('CF'), PDFDict)?.lookupMaybe(PDFName.of(name), PDFDict)
+  const cfm = filter?.lookupMaybe(PDFName.of('CFM'), PDFName)?.decodeText()
+  if (cfm === 'AESV2' || cfm === 'AESV3') return cfm
+  if (cfm === 'V2') return 'RC4'
+  return 'None'
+}
+
+const documentId = (context: PDFContext) => {
+  const id = context.lookupMaybe(context.trailerInfo.ID, PDFArray)
+  const first = id?.lookupMaybe(0, PDFString, PDFHexString)
+  return first ? bytesToBinary(first.asBytes()) : ''
+}
+
+type OpenedHandler = SecurityHandler & { permissions: number, ownerAccess: boolean, protection: OriginalProtection }
+
+// Authenticate `password` as the owner password, or else the user password, and return the security handler
+const openSecurityHandler = (context: PDFContext, encrypt: PDFDict, password: string): OpenedHandler => {
+  const filter = encrypt.lookupMaybe(PDFName.of('Filter'), PDFName)?.decodeText()
+  if (filter !== 'Standard') {
+    throw new Error(`Unsupported PDF security handler: ${filter || 'unknown'}`)
+  }
+  const version = encrypt.lookupMaybe(PDFName.of('V'), PDFNumber)?.asNumber() || 0
+  const revision = encrypt.lookupMaybe(PDFName.of('R'), PDFNumber)?.asNumber() || 0
+  const permissions = encrypt.lookupMaybe(PDFName.of('P'), PDFNumber)?.asNumber() ?? ALL_PERMISSIONS
+  const encryptMetadata = encrypt.lookupMaybe(PDFName.of('EncryptMetadata'), PDFBool)?.asBoolean() ?? true
+  const O = stringBytes(encrypt, 'O')
+  const U = stringBytes(encrypt, 'U')
+  const handler = {
+    stringMethod: cryptMethod(encrypt, 'StrF', version),
+    streamMethod: cryptMethod(encrypt, 'StmF', version),
+    encryptMetadata,
+    permissions
+  }
+
+  if (revision >= 5) {
+    const pw = aesPassword(password)
+    const userKey = U.slice(0, 48)
+    const OE = stringBytes(encrypt, 'OE')
+    const UE = stringBytes(encrypt, 'UE')
+    const ownerAccess = hardenedHash(pw, O.slice(32, 40), userKey, revision) === O.slice(0, 32)
+    if (!ownerAccess && hardenedHash(pw, U.slice(32, 40), '', revision) !== U.slice(0, 32)) {
+      throw new Error('Incorrect password.')
+    }
+    const fileKey = ownerAccess
+      ? aesDecrypt(hardenedHash(pw, O.slice(40, 48), userKey, revision), ZERO_IV, OE, false)
+      : aesDecrypt(hardenedHash(pw, U.slice(40, 48), '', revision), ZERO_IV, UE, false)
+    const entries = { revision, fileKey, O, U, OE, UE, Perms: stringBytes(encrypt, 'Perms'), permissions, encryptMetadata }
+    return { ...handler, fileKey, ownerAccess, protection: { kind: 'entries', entries } }
+  }
+
+  if (revision < 2) {
+    throw new Error(`Unsupported PDF encryption revision: ${revision}`)
+  }
+  const params: LegacyParams = {
+    revision,
+    keyLength: Math.min(16, (encrypt.lookupMaybe(PDFName.of('Length'), PDFNumber)?.asNumber() || 40) / 8),
+    O, U, P: permissions, id: documentId(context), encryptMetadata
+  }
+  const recovered = legacyUserPasswordFromOwner(password, params)
+  const ownerKey = legacyFileKey(recovered, params)
+  if (legacyUserKeyMatches(ownerKey, params)) {
+    const protection = { kind: 'passwords' as const, userPassword: unpadPassword(recovered), ownerPassword: password, permissions }
+    return { ...handler, fileKey: ownerKey, ownerAccess: true, protection }
+  }
+  const fileKey = legacyFileKey(padPassword(password), params)
+  if (legacyUserKeyMatches(fileKey, params)) {
+    return { ...handler, fileKey, ownerAccess: false, protection: { kind: 'passwords', userPassword: password, ownerPassword: null, permissions } }
+  }
+  throw new Error('Incorrect password.')
+}
+
+// Algorithm 1: per-object key for RC4 and AESV2
+const objectKey = (handler: SecurityHandler, ref: PDFRef, method: CryptMethod) => {
+  if (method === 'AESV3') return handler.fileKey
+  const n = ref.objectNumber
+  const g = ref.generationNumber
+  const salt = method === 'AESV2' ? 'sAlT' : ''
+  const hash = md5(handler.fileKey + String.fromCharCode(n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, g & 0xff, (g >> 8) & 0xff) + salt)
+  return hash.slice(0, Math.min(handler.fileKey.length + 5, 16))
+}
+
+const transform = (handler: SecurityHandler, ref: PDFRef, method: CryptMethod, data: string, encrypt: boolean) => {
+  if (method === 'None') return data
+  const key = objectKey(handler, ref, method)
+  if (method === 'RC4') return rc4(key, data)
+  return encrypt ? aesEncryptWithIv(key, data) : aesDecryptWithIv(key, data)
+}
+
+const isSignatureDict = (dict: PDFDict) => dict.has(PDFName.of('ByteRange')) && dict.has(PDFName.of('Contents'))
+
+// Apply the cipher to every string reachable from a direct object, in place
+const transformStrings = (obj: PDFObject, crypt: (data: string) => string): PDFObject => {
+  if (obj instanceof PDFString || obj instanceof PDFHexString) {
+    return PDFHexString.of(toHex(crypt(bytesToBinary(obj.asBytes()))))
+  }
+  if (obj instanceof PDFArray) {
+    for (let i = 0; i < obj.size(); i++) obj.set(i, transformStrings(obj.get(i), crypt))
+  } else if (obj instanceof PDFDict) {
+    // Signature /Contents is never encrypted so the CMS blob stays where /ByteRange expects it
+    const skipContents = isSignatureDict(obj)
+    for (const [key, value] of obj.entries()) {
+      if (skipContents && key === PDFName.of('Contents')) continue
+      obj.set(key, transformStrings(value, crypt))
+    }
+  }
+  return obj
+}
+
+const shouldSkipStream = (dict: PDFDict, handler: SecurityHandler) => {
+  const type = dict.lookupMaybe(PDFName.of('Type'), PDFName)
+  if (type === PDFName.of('XRef')) return true
+  return type === PDFName.of('Metadata') && !handler.encryptMetadata
+}
+
+const transformObject = (context: PDFContext, ref: PDFRef, obj: PDFObject, handler: SecurityHandler, encrypt: boolean) => {
+  const crypt = (method: CryptMethod) => (data: string) => transform(handler, ref, method, data, encrypt)
+  if (obj instanceof PDFStream) {
+    transformStrings(obj.dict, crypt(handler.stringMethod))
+    if (shouldSkipStream(obj.dict, handler)) return
+    const contents = binaryToBytes(crypt(handler.streamMethod)(bytesToBinary(obj.getContents())))
+    context.assign(ref, PDFRawStream.of(obj.dict, contents))
+    return
+  }
+  context.assign(ref, transformStrings(obj, crypt(handler.stringMethod)))
+}
+
+const invalidObjectBytes = (obj: PDFInvalidObject) => {
+  const bytes = new Uint8Array(obj.sizeInBytes())
+  obj.copyBytesInto(bytes, 0)
+  return bytes
+}
+
+/**
+ * pdf-lib cannot inflate an encrypted object stream, so it keeps it as an unparsed blob and
+ * the objects inside are missing. Re-parse those blobs, decrypt them and unpack their objects.
+ */
+const unpackEncryptedObjectStreams = async (context: PDFContext, handler: SecurityHandler) => {
+  for (const [ref, obj] of context.enumerateIndirectObjects()) {
+    if (!(obj instanceof PDFInvalidObject)) continue
+    let stream: PDFObject
+    try {
+      stream = PDFObjectParser.forBytes(invalidObjectBytes(obj), context).parseObject()
+    } catch {
+      continue
+    }
+    if (!(stream instanceof PDFRawStream) || stream.dict.lookupMaybe(PDFName.of('Type'), PDFName) !== PDFName.of('ObjStm')) continue
+    const contents = transform(handler, ref, handler.streamMethod, bytesToBinary(stream.getContents()), false)
+    context.delete(ref)
+    await PDFObjectStreamParser.forStream(PDFRawStream.of(stream.dict, binaryToBytes(contents))).parseIntoContext()
+  }
+}
+
+/** Parse without decrypting and report whether the file has an /Encrypt dictionary. */
+export async function isEncryptedPdf(bytes: Uint8Array): Promise<boolean> {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false })
+  return pdfDoc.isEncrypted
+}
+
+/**
+ * Decrypt a password-protected PDF into an equivalent unencrypted file.
+ * Either the user or the owner password is accepted; an empty string opens owner-only files.
+ */
+export async function decryptPdf(bytes: Uint8Array, password: string): Promise<DecryptedPdf> {
+  const context = await PDFParser.forBytesWithOptions(bytes).parseDocument()
+  const encryptRef = context.trailerInfo.Encrypt
+  const encrypt = context.lookupMaybe(encryptRef, PDFDict)
+  if (!encrypt) {
+    return { bytes, permissions: ALL_PERMISSIONS, ownerAccess: true, protection: null }
+  }
+  const handler = openSecurityHandler(context, encrypt, password)
+
+  for (const [ref, obj] of context.enumerateIndirectObjects()) {
+    if (ref === encryptRef || obj instanceof PDFInvalidObject) continue
+    transformObject(context, ref, obj, handler, false)
+  }
+  // Objects inside object streams are covered by the stream's own encryption, so unpack them last
+  await unpackEncryptedObjectStreams(context, handler)
+
+  if (encryptRef instanceof PDFRef) context.delete(encryptRef)
+  context.trailerInfo.Encrypt = undefined
+  return {
+    bytes: await PDFWriter.forContext(context, 50).serializeToBuffer(),
+    permissions: handler.permissions,
+    ownerAccess: handler.ownerAccess,
+    protection: handler.protection
+  }
+}
+
+/** The protection `password` opens, without decrypting the file; null when it isn't encrypted. */
+export async function readProtection(bytes: Uint8Array, password: string): Promise<OriginalProtection | null> {
+  const context = await PDFParser.forBytesWithOptions(bytes).parseDocument()
+  const encrypt = context.lookupMaybe(context.trailerInfo.Encrypt, PDFDict)
+  return encrypt ? openSecurityHandler(context, encrypt, password).protection : null
+}
+
+// Encrypt every object in place under the entries' file key, then add their /Encrypt dictionary
+const writeEncryption = async (pdfDoc: PDFDocument, entries: SecurityEntries) => {
+  // Write out pending fonts and images so they are encrypted along with everything else
+  await pdfDoc.flush()
+  const context = pdfDoc.context
+  const handler: SecurityHandler = { stringMethod: 'AESV3', streamMethod: 'AESV3', fileKey: entries.fileKey, encryptMetadata: entries.encryptMetadata }
+  for (const [ref, obj] of context.enumerateIndirectObjects()) {
+    transformObject(context, ref, obj, handler, true)
+  }
+
+  const encrypt = context.obj({
+    Filter: 'Standard',
+    V: 5,
+    R: entries.revision,
+    Length: 256,
+    CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV3', Length: 32 } },
+    StmF: 'StdCF',
+    StrF: 'StdCF',
+    P: entries.permissions,
+    O: PDFHexString.of(toHex(entries.O)),
+    U: PDFHexString.of(toHex(entries.U)),
+    OE: PDFHexString.of(toHex(entries.OE)),
+    UE: PDFHexString.of(toHex(entries.UE)),
+    ...(entries.Perms ? { Perms: PDFHexString.of(toHex(entries.Perms)) } : {}),
+    ...(entries.encryptMetadata ? {} : { EncryptMetadata: false })
+  })
+  context.trailerInfo.Encrypt = context.register(encrypt)
+  if (!context.trailerInfo.ID) {
+    const id = PDFHexString.of(toHex(randomBytes(16)))
+    context.trailerInfo.ID = context.obj([id, id])
+  }
+}
+
+/**
+ * Encrypt every object of `pdfDoc` in place with AES-256 (revision 6).
+ * Call this last, then save with `useObjectStreams: false` and `updateFieldAppearances: false`;
+ * pdf-lib must not add objects afterwards because it only understands plain ones.
+ */
+export async function encryptDocument(pdfDoc: PDFDocument, options: OutputEncryption) {
+  const permissions = options.permissions ?? ALL_PERMISSIONS
+  const fileKey = randomBytes(32)
+  const userPassword = aesPassword(options.userPassword)
+  // An empty owner password would let anyone lift the restrictions, so fall back to the user password
+  const ownerPassword = aesPassword(options.ownerPassword || options.userPassword)
+
+  // Algorithm 8: /U and /UE
+  const userValidationSalt = randomBytes(8)
+  const userKeySalt = randomBytes(8)
+  const U = hardenedHash(userPassword, userValidationSalt, '', 6) + userValidationSalt + userKeySalt
+  const UE = aesEncrypt(hardenedHash(userPassword, userKeySalt, '', 6), ZERO_IV, fileKey, false)
+
+  // Algorithm 9: /O and /OE, both bound to /U
+  const ownerValidationSalt = randomBytes(8)
+  const ownerKeySalt = randomBytes(8)
+  const O = hardenedHash(ownerPassword, ownerValidationSalt, U, 6) + ownerValidationSalt + ownerKeySalt
+  const OE = aesEncrypt(hardenedHash(ownerPassword, ownerKeySalt, U, 6), ZERO_IV, fileKey, false)
+
+  // Algorithm 10: /Perms lets readers detect a tampered /P
+  const Perms = aesEncrypt(fileKey, ZERO_IV, int32LE(permissions) + '\xff\xff\xff\xff' + 'Tadb' + randomBytes(4), false)
+
+  await writeEncryption(pdfDoc, { revision: 6, fileKey, O, U, OE, UE, Perms, permissions, encryptMetadata: true })
+}
+
+/**
+ * Encrypt `pdfDoc` in place with the protection of its input, as encryptDocument does.
+ * `ownerPassword` stands in for an owner password that couldn't be recovered.
+ */
+export async function keepProtection(pdfDoc: PDFDocument, protection: OriginalProtection, ownerPassword = '') {
+  if (protection.kind === 'entries') return writeEncryption(pdfDoc, protection.entries)
+  const owner = protection.ownerPassword ?? ownerPassword
+  // An empty one would let anyone lift the restrictions
+  if (!owner) throw new Error("The owner password of this PDF isn't known. Please choose one.")
+  await encryptDocument(pdfDoc, { userPassword: protection.userPassword, ownerPassword: owner, permissions: protection.permissions })
+}
@@ -0,0 +1,116 @@
+import {
+  AnnotationFlags, PDFButton, PDFCheckBox, PDFDocument, PDFDropdown, PDFField, PDFName, PDFOptionList, PDFRadioGroup,
+  PDFRef, PDFSignature, PDFTextField
+} from 'pdf-lib'
+import type { PercentRect } from '../../store/appStore'
+import { decryptPdf, isEncryptedPdf } from './encryption'
+import { geometryFromPdfLibPage, pdfRectToPercentRect } from './geometry'
+
+/**
+ * AcroForm fields of the loaded document, for the sidebar editor and the viewer overlay.
+ * Values are keyed by fully qualified field name; see write/forms.ts for filling them in on export.
+ */
+export type FormFieldKind = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'signature' | 'button'
+// Text and dropdowns hold a string, checkboxes a boolean, radio groups the selected option ('' for none)
+export type FormValue = string | boolean
+export type FormWidget = {
+  pageIndex: number
+  rect: PercentRect // Display percentages, like placements
+  option?: string // Radio button this widget selects
+}
+export type FormField = {
+  name: string
+  kind: FormFieldKind
+  value: FormValue // As stored in the file; for signature fields, whether it is signed; '' for push buttons
+  options?: string[] // Radio and dropdown choices
+  multiline?: boolean
+  maxLength?: number
+  readOnly: boolean
+  required: boolean
+  widgets: FormWidget[]
+}
+
+const kindOf = (field: PDFField): FormFieldKind | null => {
+  if (field instanceof PDFTextField) return 'text'
+  if (field instanceof PDFCheckBox) return 'checkbox'
+  if (field instanceof PDFRadioGroup) return 'radio'
+  // Option lists are filled like dropdowns (single selection)
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) return 'dropdown'
+  if (field instanceof PDFSignature) return 'signature'
+  if (field instanceof PDFButton) return 'button' // No value, but may be a "Sign here" placeholder
+  return null
+}
+
+const valueOf = (field: PDFField): FormValue => {
+  if (field instanceof PDFTextField) return field.getText() ?? ''
+  if (field instanceof PDFCheckBox) return field.isChecked()
+  if (field instanceof PDFRadioGroup) return field.getSelected() ?? ''
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) return field.getSelected()[0] ?? ''
+  if (field instanceof PDFSignature) return field.acroField.dict.has(PDFName.of('V'))
+  return ''
+}
+
+/** Empty signature fields and "Sign here" placeholders, which a placed signature snaps into. */
+export const isSignatureTarget = (field: FormField) =>
+  field.kind === 'signature' ? field.value === false : !field.readOnly && /sign[\s_-]*here/i.test(field.name)
+
+/** Signature targets no placement has been snapped into yet. */
+export const openSignatureTargets = (fields: FormField[], placements: { field?: string }[]) => {
+  const filled = new Set(placements.map(p => p.field))
+  return fields.filter(field => isSignatureTarget(field) && !filled.has(field.name))
+}
+
+/** List the document's form fields with their current values and widget positions. */
+export async function readFormFields(file: File, password?: string | null): Promise<FormField[]> {
+  let bytes: Uint8Array = new Uint8Array(await file.arrayBuffer())
+  if (await isEncryptedPdf(bytes)) bytes = (await decryptPdf(bytes, password ?? '')).bytes
+  const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false })
+  // getForm() would create an empty AcroForm, so check for one first
+  if (!pdfDoc.catalog.getAcroForm()) return []
+
+  const pages = pdfDoc.getPages()
+  const geometries = pages.map(geometryFromPdfLibPage)
+  // Widgets don't always name their page (/P), so also index every page's annotations
+  const pageOfRef = new Map<PDFRef, number>()
+  pages.forEach((page, pageIndex) => {
+    page.node.Annots()?.asArray().forEach(annot => {
+      if (annot instanceof PDFRef) pageOfRef.set(annot, pageIndex)
+    })
+  })
+
+  const fields: FormField[] = []
+  for (const field of pdfDoc.getForm().getFields()) {
+    const kind = kindOf(field)
+    if (!kind) continue
+    const options = field instanceof PDFRadioGroup || field instanceof PDFDropdown || field instanceof PDFOptionList
+      ? field.getOptions()
+      : undefined
+    const widgets: FormWidget[] = []
+    field.acroField.getWidgets().forEach((widget, i) => {
+      if (widget.hasFlag(AnnotationFlags.Hidden)) return
+      const pageRef = widget.P()
+      const ref = pdfDoc.context.getObjectRef(widget.dict)
+      const byParent = pageRef ? pages.findIndex(p => p.ref === pageRef) : -1
+      const pageIndex = byParent >= 0 ? byParent : (ref && pageOfRef.get(ref)) ?? -1
+      if (pageIndex < 0) return
+      widgets.push({
+        pageIndex,
+        rect: pdfRectToPercentRect(widget.getRectangle(), geometries[pageIndex]),
+        // pdf-lib lists radio options in widget order
+        option: field instanceof PDFRadioGroup ? options?.[i] : undefined
+      })
+    })
+    fields.push({
+      name: field.getName(),
+      kind,
+      value: valueOf(field),
+      options,
+      multiline: field instanceof PDFTextField ? field.isMultiline() : undefined,
+      maxLength: field instanceof PDFTextField ? field.getMaxLength() : undefined,
+      readOnly: field.isReadOnly(),
+      required: field.isRequired(),
+      widgets
+    })
+  }
+  return fields
+}
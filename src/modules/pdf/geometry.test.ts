@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDocument, PDFName, PDFNumber, degrees } from 'pdf-lib'
+import {
+  PageGeometry, Rotation, displaySize, displaySizeInPoints, geometryFromPdfLibPage, normalizeRotation, pdfRectToPercentRect,
+  percentPointToPdf, percentRectToPdfRect, placementDrawParams
+} from './geometry'
+
+// A 600 x 800 visible box at the origin, and the same box offset as a CropBox inside a larger MediaBox
+const boxes = [
+  { name: 'at the origin', box: { x: 0, y: 0, width: 600, height: 800 } },
+  { name: 'offset', box: { x: 50, y: 100, width: 600, height: 800 } }
+]
+
+// Per rotation: the displayed top-left and bottom-left corners as fractions of the unrotated box (s right, t up)
+const rotations: { rotation: Rotation, topLeft: [number, number], bottomLeft: [number, number], display: [number, number] }[] = [
+  { rotation: 0, topLeft: [0, 1], bottomLeft: [0, 0], display: [600, 800] },
+  { rotation: 90, topLeft: [0, 0], bottomLeft: [1, 0], display: [800, 600] },
+  { rotation: 180, topLeft: [1, 0], bottomLeft: [1, 1], display: [600, 800] },
+  { rotation: 270, topLeft: [1, 1], bottomLeft: [0, 1], display: [800, 600] }
+]
+
+const cases = boxes.flatMap(({ name, box }) => rotations.map(r => ({ ...r, name, geometry: { box, rotation: r.rotation, userUnit: 1 } as PageGeometry })))
+const at = (g: PageGeometry, [s, t]: [number, number]) => ({ x: g.box.x + s * g.box.width, y: g.box.y + t * g.box.height })
+
+describe.each(cases)('rotation $rotation, box $name', ({ geometry, topLeft, bottomLeft, display }) => {
+  it('sizes the page as displayed', () => {
+    expect(displaySize(geometry)).toEqual({ width: display[0], height: display[1] })
+  })
+
+  it('maps the displayed top-left corner', () => {
+    const point = percentPointToPdf(0, 0, geometry)
+    expect(point.x).toBeCloseTo(at(geometry, topLeft).x)
+    expect(point.y).toBeCloseTo(at(geometry, topLeft).y)
+  })
+
+  it('round-trips a rect through user space', () => {
+    const rect = { x: 10, y: 20, w: 30, h: 15 }
+    const back = pdfRectToPercentRect(percentRectToPdfRect(rect, geometry), geometry)
+    for (const key of ['x', 'y', 'w', 'h'] as const) expect(back[key]).toBeCloseTo(rect[key])
+  })
+
+  it('keeps the visible box origin in user space', () => {
+    const whole = percentRectToPdfRect({ x: 0, y: 0, w: 100, h: 100 }, geometry)
+    for (const key of ['x', 'y', 'width', 'height'] as const) expect(whole[key]).toBeCloseTo(geometry.box[key])
+  })
+
+  it('anchors drawing at the displayed bottom-left, counter-rotated', () => {
+    const params = placementDrawParams({ x: 0, y: 0, w: 100, h: 100 }, geometry)
+    expect(params.x).toBeCloseTo(at(geometry, bottomLeft).x)
+    expect(params.y).toBeCloseTo(at(geometry, bottomLeft).y)
+    expect(params.width).toBeCloseTo(display[0])
+    expect(params.height).toBeCloseTo(display[1])
+    expect(params.rotate).toBe(geometry.rotation)
+  })
+})
+
+describe('normalizeRotation', () => {
+  it.each([[0, 0], [90, 90], [-90, 270], [450, 90], [540, 180], [-360, 0]])('%i is %i', (angle, rotation) => {
+    expect(normalizeRotation(angle)).toBe(rotation)
+  })
+})
+
+describe('geometryFromPdfLibPage', () => {
+  const page = async (setup: (page: ReturnType<PDFDocument['addPage']>) => void) => {
+    const doc = await PDFDocument.create()
+    const p = doc.addPage([600, 800])
+    setup(p)
+    return geometryFromPdfLibPage(p)
+  }
+
+  it('uses the CropBox within the MediaBox, and the page rotation', async () => {
+    const g = await page(p => {
+      p.setMediaBox(-20, -40, 700, 1000)
+      p.setCropBox(50, 100, 600, 800)
+      p.setRotation(degrees(-90))
+    })
+    expect(g).toEqual({ box: { x: 50, y: 100, width: 600, height: 800 }, rotation: 270, userUnit: 1 })
+  })
+
+  it('falls back to the MediaBox when the CropBox misses it', async () => {
+    const g = await page(p => p.setCropBox(1000, 1000, 10, 10))
+    expect(g.box).toEqual({ x: 0, y: 0, width: 600, height: 800 })
+  })
+
+  it('reads UserUnit, which scales physical sizes only', async () => {
+    const g = await page(p => {
+      p.node.set(PDFName.of('UserUnit'), PDFNumber.of(2))
+      p.setRotation(degrees(90))
+    })
+    expect(g.userUnit).toBe(2)
+    expect(displaySize(g)).toEqual({ width: 800, height: 600 })
+    expect(displaySizeInPoints(g)).toEqual({ width: 1600, height: 1200 })
+    // Placements are fractions of the page, so user space coordinates don't change
+    expect(percentPointToPdf(50, 50, g)).toEqual({ x: 300, y: 400 })
+  })
+})
@@ -0,0 +1,136 @@
+import { PDFName, PDFNumber, PDFPage } from 'pdf-lib'
+import type { PDFPageProxy } from 'pdfjs-dist'
+import type { PercentRect } from '../../store/appStore'
+
+/**
+ * Page coordinate transform shared by the viewer and the exporter.
+ *
+ * Placements are stored as percentages of the page *as displayed* (rotation applied,
+ * top-left origin). PDF content lives in unrotated user space with a bottom-left origin,
+ * offset by the visible box (CropBox clipped to MediaBox).
+ */
+export type Rotation = 0 | 90 | 180 | 270
+export type Box = { x:number, y:number, width:number, height:number }
+export type PageGeometry = { box:Box, rotation:Rotation, userUnit:number }
+
+// Parameters for pdf-lib's drawImage/drawText: anchor is the content's own bottom-left corner
+export type DrawParams = { x:number, y:number, width:number, height:number, rotate:Rotation }
+
+export const normalizeRotation = (angle: number): Rotation => {
+  const r = ((Math.round(angle / 90) * 90) % 360 + 360) % 360
+  return r as Rotation
+}
+
+const intersect = (a: Box, b: Box): Box => {
+  const x = Math.max(a.x, b.x)
+  const y = Math.max(a.y, b.y)
+  const width = Math.min(a.x + a.width, b.x + b.width) - x
+  const height = Math.min(a.y + a.height, b.y + b.height) - y
+  // Malformed boxes that do not overlap fall back to the MediaBox, matching pdf.js
+  return width > 0 && height > 0 ? { x, y, width, height } : b
+}
+
+export function geometryFromPdfLibPage(page: PDFPage): PageGeometry {
+  const userUnit = page.node.lookupMaybe(PDFName.of('UserUnit'), PDFNumber)?.asNumber() || 1
+  return {
+    box: intersect(page.getCropBox(), page.getMediaBox()),
+    rotation: normalizeRotation(page.getRotation().angle),
+    userUnit
+  }
+}
+
+export function geometryFromPdfJsPage(page: PDFPageProxy): PageGeometry {
+  const [x1, y1, x2, y2] = page.view
+  return {
+    box: { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) },
+    rotation: normalizeRotation(page.rotate),
+    userUnit: page.userUnit || 1
+  }
+}
+
+/** Size of the page as displayed, in user-space units (multiply by userUnit for points). */
+export function displaySize(g: PageGeometry): { width:number, height:number } {
+  const quarter = g.rotation === 90 || g.rotation === 270
+  return quarter
+    ? { width: g.box.height, height: g.box.width }
+    : { width: g.box.width, height: g.box.height }
+}
+
+/**
+ * Physical size of the page as displayed, in points. Only physical sizes (default boxes, offsets in
+ * points) need it: placements are fractions of the page, and drawing stays in user space.
+ */
+export function displaySizeInPoints(g: PageGeometry): { width:number, height:number } {
+  const { width, height } = displaySize(g)
+  return { width: width * g.userUnit, height: height * g.userUnit }
+}
+
+// Map a display fraction (u right, v down, both 0-1) to a fraction of the unrotated box (s right, t up)
+const displayToBox = (u: number, v: number, rotation: Rotation): [number, number] => {
+  switch (rotation) {
+    case 90: return [v, u]
+    case 180: return [1 - u, v]
+    case 270: return [1 - v, 1 - u]
+    default: return [u, 1 - v]
+  }
+}
+
+const boxToDisplay = (s: number, t: number, rotation: Rotation): [number, number] => {
+  switch (rotation) {
+    case 90: return [t, s]
+    case 180: return [1 - s, t]
+    case 270: return [1 - t, 1 - s]
+    default: return [s, 1 - t]
+  }
+}
+
+/** Convert a display percentage point to PDF user space. */
+export function percentPointToPdf(xPercent: number, yPercent: number, g: PageGeometry): { x:number, y:number } {
+  const [s, t] = displayToBox(xPercent / 100, yPercent / 100, g.rotation)
+  return { x: g.box.x + s * g.box.width, y: g.box.y + t * g.box.height }
+}
+
+/** Convert a PDF user-space point to display percentages. */
+export function pdfPointToPercent(x: number, y: number, g: PageGeometry): { x:number, y:number } {
+  const [u, v] = boxToDisplay((x - g.box.x) / g.box.width, (y - g.box.y) / g.box.height, g.rotation)
+  return { x: u * 100, y: v * 100 }
+}
+
+/** Axis-aligned PDF user-space rectangle covered by a display percentage rect. */
+export function percentRectToPdfRect(rect: PercentRect, g: PageGeometry): Box {
+  const a = percentPointToPdf(rect.x, rect.y, g)
+  const b = percentPointToPdf(rect.x + rect.w, rect.y + rect.h, g)
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y) }
+}
+
+/** Display percentage rect covering an axis-aligned PDF user-space rectangle (e.g. a widget /Rect). */
+export function pdfRectToPercentRect(rect: Box, g: PageGeometry): PercentRect {
+  const a = pdfPointToPercent(rect.x, rect.y, g)
+  const b = pdfPointToPercent(rect.x + rect.width, rect.y + rect.height, g)
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), w: Math.abs(b.x - a.x), h: Math.abs(b.y - a.y) }
+}
+
+/** The largest rect with the given displayed aspect ratio (width / height), centred in `rect`. */
+export function fitPercentRect(rect: PercentRect, aspect: number, g: PageGeometry): PercentRect {
+  const display = displaySize(g)
+  const width = Math.min(rect.w * display.width, rect.h * display.height * aspect)
+  const w = width / display.width
+  const h = width / aspect / display.height
+  return { x: rect.x + (rect.w - w) / 2, y: rect.y + (rect.h - h) / 2, w, h }
+}
+
+/**
+ * Where to draw content so it appears upright inside a display percentage rect.
+ * The page's /Rotate turns content clockwise, so we counter-rotate by the same angle.
+ */
+export function placementDrawParams(rect: PercentRect, g: PageGeometry): DrawParams {
+  const anchor = percentPointToPdf(rect.x, rect.y + rect.h, g)
+  const display = displaySize(g)
+  return {
+    x: anchor.x,
+    y: anchor.y,
+    width: (rect.w / 100) * display.width,
+    height: (rect.h / 100) * display.height,
+    rotate: g.rotation
+  }
+}
@@ -0,0 +1,71 @@
+import type { PercentRect, Size } from '../../store/appStore'
+
+/**
+ * Page operations: which pages the signed document has, in which order and turned how far. The opened
+ * file itself is never changed; the viewer shows, and the export writes, its pages as arranged here.
+ */
+// `file` 0 is the opened PDF, 1 and on the merged ones in the order they were added. `rotation` is in
+// clockwise degrees on top of the page's own; blank pages are sized in points.
+export type PageSlot =
+  | { kind: 'page', file: number, pageIndex: number, rotation: number }
+  | { kind: 'blank', width: number, height: number, rotation: number }
+// The new layout, and where each page of the old one went: its new index, or null when deleted
+export type PageEdit = { layout: PageSlot[], moved: (number | null)[] }
+
+/** Every page of a file, as it is. */
+export const pagesOf = (file: number, count: number): PageSlot[] =>
+  Array.from({ length: count }, (_, pageIndex) => ({ kind: 'page', file, pageIndex, rotation: 0 }))
+
+const unmoved = (layout: PageSlot[]) => layout.map((_, i): number | null => i)
+
+/** Turn a page a quarter clockwise. */
+export function turnPage(layout: PageSlot[], pageIndex: number): PageEdit {
+  return {
+    layout: layout.map((slot, i) => i === pageIndex ? { ...slot, rotation: (slot.rotation + 90) % 360 } : slot),
+    moved: unmoved(layout)
+  }
+}
+
+export function removePageAt(layout: PageSlot[], pageIndex: number): PageEdit {
+  return {
+    layout: layout.filter((_, i) => i !== pageIndex),
+    moved: layout.map((_, i) => i === pageIndex ? null : i < pageIndex ? i : i - 1)
+  }
+}
+
+/** Take the page at `from` out and put it back so it ends up at index `to`. */
+export function movePageTo(layout: PageSlot[], from: number, to: number): PageEdit {
+  const order = layout.map((_, i) => i)
+  order.splice(to, 0, ...order.splice(from, 1))
+  const moved = unmoved(layout)
+  order.forEach((old, i) => { moved[old] = i })
+  return { layout: order.map(old => layout[old]), moved }
+}
+
+/** A blank page of `size` (in points, as displayed) at index `at`. */
+export function insertBlankPage(layout: PageSlot[], at: number, size: Size): PageEdit {
+  return {
+    layout: [...layout.slice(0, at), { kind: 'blank', width: size.width, height: size.height, rotation: 0 }, ...layout.slice(at)],
+    moved: layout.map((_, i) => i < at ? i : i + 1)
+  }
+}
+
+/** The pages of another file, after the last page. */
+export function appendPages(layout: PageSlot[], file: number, count: number): PageEdit {
+  return { layout: [...layout, ...pagesOf(file, count)], moved: unmoved(layout) }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+
+/**
+ * Where a rect on a page of display `size` goes when the page turns a quarter clockwise: it stays on
+ * the same content and keeps its size in points (so a signature isn't stretched), upright as before.
+ */
+export function turnedRect(rect: PercentRect, size: Size): PercentRect {
+  const w = Math.min(rect.w * size.width / size.height, 100)
+  const h = Math.min(rect.h * size.height / size.width, 100)
+  // The centre moves with the page: the top-left corner goes to the top-right
+  const cx = 100 - (rect.y + rect.h / 2)
+  const cy = rect.x + rect.w / 2
+  return { x: clamp(cx - w / 2, 0, 100 - w), y: clamp(cy - h / 2, 0, 100 - h), w, h }
+}
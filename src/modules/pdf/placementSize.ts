@@ -0,0 +1,47 @@
+import type { DateContent, PlacementContent, TextContent } from '../../store/appStore'
+import { signatureFontFamily } from '../fonts/signatureFonts'
+import { STAMP_LAYOUT, stampLines } from '../write/stamps'
+import { PageGeometry, displaySize, displaySizeInPoints } from './geometry'
+
+// Default boxes in points (a signature is roughly 2.3in x 0.6in), independent of zoom and page rotation.
+// Text and date stamps are sized to their text instead.
+const DEFAULT_SIZES_PT = {
+  signature: { width: 165, height: 45 },
+  initials: { width: 60, height: 36 },
+  mark: { width: 18, height: 18 }
+}
+
+// Size of a text or date stamp in user space units, measured in the font the overlay shows it in
+const measureStamp = async (stamp: TextContent | DateContent) => {
+  const { padding, lineHeight } = STAMP_LAYOUT
+  const font = `${stamp.style.size}px ${signatureFontFamily(stamp.style.font)}`
+  const lines = stampLines(stamp, new Date())
+  await document.fonts.load(font, lines.join(''))
+  const ctx = document.createElement('canvas').getContext('2d')!
+  ctx.font = font
+  return {
+    width: Math.ceil(Math.max(...lines.map(line => ctx.measureText(line).width))) + padding * 2,
+    height: lines.length * stamp.style.size * lineHeight + padding * 2
+  }
+}
+
+/** Default box for new content as display percentages of a page. */
+export const defaultPercentSize = async (content: PlacementContent, g: PageGeometry) => {
+  const { width, height } = displaySize(g)
+  if (content.kind === 'text' || content.kind === 'date') {
+    // Font sizes are in user space units, so UserUnit doesn't apply
+    const size = await measureStamp(content)
+    return { w: Math.min(100, (size.width / width) * 100), h: Math.min(100, (size.height / height) * 100) }
+  }
+  return defaultBoxPercentSize(content.kind, g)
+}
+
+/** Default box of a signature, initials or mark (also of envelope fields) as display percentages of a page. */
+export const defaultBoxPercentSize = (kind: keyof typeof DEFAULT_SIZES_PT, g: PageGeometry) => {
+  const { width, height } = displaySizeInPoints(g)
+  const size = DEFAULT_SIZES_PT[kind]
+  return {
+    w: Math.min(100, (size.width / width) * 100),
+    h: Math.min(100, (size.height / height) * 100)
+  }
+}
@@ -1,24 +1,183 @@
 import * as pdfjsLib from 'pdfjs-dist'
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
 import 'pdfjs-dist/build/pdf.worker.mjs'
+import { PageGeometry, geometryFromPdfJsPage } from './geometry'
+import type { PageTextItem } from './textSearch'
 
 type Size = { width: number, height: number }
 
-export async function renderPdfToCanvases(file: File): Promise<{canvases: HTMLCanvasElement[], sizes: Size[]}> {
+export type PasswordRequest = 'required' | 'incorrect'
+
+// pdf.js rejects with a PasswordException when the file needs a password or the one given is wrong
+export const passwordRequestFor = (error: unknown): PasswordRequest | null => {
+  if (!(error instanceof Error) || error.name !== 'PasswordException') return null
+  const code = (error as Error & { code?: number }).code
+  return code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD ? 'incorrect' : 'required'
+}
+
+// Pixel memory kept in rendered canvases (4 bytes per pixel); beyond it, off-screen pages are released
+const CANVAS_BUDGET_BYTES = 256 * 1024 * 1024
+// Largest canvas Safari on iOS will draw (4096 x 4096); beyond it pages are rendered coarser and stretched
+const MAX_CANVAS_PIXELS = 4096 * 4096
+
+export async function openPdf(file: File, password?: string | null): Promise<PDFDocumentProxy> {
   const data = await file.arrayBuffer()
-  const pdf = await pdfjsLib.getDocument({ data }).promise
-  const canvases: HTMLCanvasElement[] = []
-  const sizes: Size[] = []
-  for (let i=1; i<=pdf.numPages; i++) {
-    const page = await pdf.getPage(i)
-    const viewport = page.getViewport({ scale: 1.5 })
-    const canvas = document.createElement('canvas')
-    const ctx = canvas.getContext('2d')!
-    canvas.width = viewport.width
-    canvas.height = viewport.height
-    // @ts-ignore
-    await page.render({ canvasContext: ctx, viewport }).promise
-    canvases.push(canvas)
-    sizes.push({ width: viewport.width, height: viewport.height })
+  return pdfjsLib.getDocument({ data, password: password ?? undefined }).promise
+}
+
+export type PageLayouts = { sizes: Size[], geometries: PageGeometry[] }
+
+/** Display size (in points, rotation applied) and geometry of every page, without rendering any of them. */
+export async function loadPageLayouts(pdf: PDFDocumentProxy): Promise<PageLayouts> {
+  const pages = await Promise.all(Array.from({ length: pdf.numPages }, (_, i) => pdf.getPage(i + 1)))
+  return {
+    sizes: pages.map(page => {
+      const { width, height } = page.getViewport({ scale: 1 })
+      return { width, height }
+    }),
+    geometries: pages.map(geometryFromPdfJsPage)
+  }
+}
+
+const pageTexts = new WeakMap<PDFDocumentProxy, Promise<PageTextItem[][]>>()
+
+/** Text items of every page, for anchor search; extracted once per document, on first use. */
+export function getPageTexts(pdf: PDFDocumentProxy): Promise<PageTextItem[][]> {
+  let texts = pageTexts.get(pdf)
+  if (!texts) {
+    texts = (async () => {
+      const result: PageTextItem[][] = []
+      for (let i=1; i<=pdf.numPages; i++) {
+        const content = await (await pdf.getPage(i)).getTextContent()
+        result.push(content.items.flatMap(item => 'str' in item
+          ? [{ str: item.str, transform: item.transform, width: item.width, height: item.height, hasEOL: item.hasEOL }]
+          : []))
+      }
+      return result
+    })()
+    pageTexts.set(pdf, texts)
+  }
+  return texts
+}
+
+/**
+ * Lay the page's text out in transparent, selectable spans over it (pdf.js text layer). Sized in
+ * points times the `--scale-factor` CSS variable of an ancestor, so zooming doesn't need a new layer.
+ */
+export async function renderTextLayer(pdf: PDFDocumentProxy, pageIndex: number, container: HTMLElement): Promise<void> {
+  const page = await pdf.getPage(pageIndex + 1)
+  const layer = new pdfjsLib.TextLayer({ textContentSource: page.streamTextContent(), container, viewport: page.getViewport({ scale: 1 }) })
+  await layer.render()
+}
+
+export type PageRenderer = {
+  show: (pageIndex: number) => void // The page scrolled into view: render it unless it already is
+  hide: (pageIndex: number) => void // Out of view: stop rendering it; its canvas is kept while the budget allows
+  setScale: (scale: number) => void // Re-render visible pages at a new resolution, others when they are shown again
+  destroy: () => void
+}
+
+/**
+ * Render pages on demand at `scale` device pixels per point. Each finished canvas is handed to
+ * `mount`; a canvas rendered at an older scale stays up until its replacement is mounted. The least
+ * recently shown off-screen canvases are removed and shrunk to free their pixels once the budget is exceeded.
+ */
+export function createPageRenderer(
+  pdf: PDFDocumentProxy,
+  scale: number,
+  mount: (pageIndex: number, canvas: HTMLCanvasElement) => void,
+  budget = CANVAS_BUDGET_BYTES
+): PageRenderer {
+  const canvases = new Map<number, { canvas: HTMLCanvasElement, scale: number }>() // In order of last use
+  const tasks = new Map<number, RenderTask>()
+  const pending = new Set<number>()
+  const visible = new Set<number>()
+
+  // Browsers keep the backing store of a detached canvas until it is resized
+  const shrink = (canvas: HTMLCanvasElement) => {
+    canvas.remove()
+    canvas.width = 0
+    canvas.height = 0
+  }
+
+  const evict = () => {
+    let used = 0
+    canvases.forEach(({ canvas }) => { used += canvas.width * canvas.height * 4 })
+    for (const [pageIndex, { canvas }] of canvases) {
+      if (used <= budget) break
+      if (visible.has(pageIndex)) continue
+      used -= canvas.width * canvas.height * 4
+      canvases.delete(pageIndex)
+      shrink(canvas)
+    }
+  }
+
+  const render = async (pageIndex: number) => {
+    if (pending.has(pageIndex)) return
+    pending.add(pageIndex)
+    try {
+      // Until the page is up at the current scale, or out of view
+      while (visible.has(pageIndex) && canvases.get(pageIndex)?.scale !== scale) {
+        const page = await pdf.getPage(pageIndex + 1)
+        const renderScale = scale
+        const { width, height } = page.getViewport({ scale: 1 })
+        const viewport = page.getViewport({ scale: Math.min(renderScale, Math.sqrt(MAX_CANVAS_PIXELS / (width * height))) })
+        const canvas = document.createElement('canvas')
+        canvas.width = Math.ceil(viewport.width)
+        canvas.height = Math.ceil(viewport.height)
+        const task = page.render({ canvasContext: canvas.getContext('2d')!, viewport })
+        tasks.set(pageIndex, task)
+        try {
+          await task.promise
+        } catch (error) {
+          shrink(canvas)
+          if (!(error instanceof pdfjsLib.RenderingCancelledException)) throw error
+          continue
+        } finally {
+          tasks.delete(pageIndex)
+        }
+        const previous = canvases.get(pageIndex)
+        canvases.delete(pageIndex)
+        canvases.set(pageIndex, { canvas, scale: renderScale })
+        mount(pageIndex, canvas)
+        if (previous) shrink(previous.canvas)
+        evict()
+      }
+    } finally {
+      pending.delete(pageIndex)
+    }
+  }
+
+  const start = (pageIndex: number) =>
+    render(pageIndex).catch(error => console.error(`Page ${pageIndex + 1} render error:`, error))
+
+  return {
+    show: pageIndex => {
+      visible.add(pageIndex)
+      const rendered = canvases.get(pageIndex)
+      if (rendered) {
+        // Move to the most recently used end
+        canvases.delete(pageIndex)
+        canvases.set(pageIndex, rendered)
+      }
+      start(pageIndex)
+    },
+    hide: pageIndex => {
+      visible.delete(pageIndex)
+      tasks.get(pageIndex)?.cancel()
+    },
+    setScale: next => {
+      if (next === scale) return
+      scale = next
+      // Renders at the old scale start over at the new one
+      tasks.forEach(task => task.cancel())
+      visible.forEach(start)
+    },
+    destroy: () => {
+      visible.clear()
+      tasks.forEach(task => task.cancel())
+      canvases.forEach(({ canvas }) => shrink(canvas))
+      canvases.clear()
+    }
   }
-  return { canvases, sizes }
-}
\ No newline at end of file
+}
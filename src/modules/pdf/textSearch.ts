@@ -0,0 +1,81 @@
+import type { PercentRect } from '../../store/appStore'
+import { PageGeometry, pdfPointToPercent } from './geometry'
+
+/**
+ * Matching text on the pages, for in-document search and anchor placement. Works on the text items
+ * pdf.js extracts (see render.ts getPageTexts) and locates matches in display percentages, like placements.
+ */
+
+// A pdf.js text item in unrotated PDF user space: `transform` maps the glyph space of the run onto the page
+export type PageTextItem = { str: string, transform: number[], width: number, height: number, hasEOL: boolean }
+// One rect per text item the match touches, so a match across a line break is two boxes
+export type TextMatch = { pageIndex: number, text: string, rects: PercentRect[] }
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/** Regular expression source matching `text` literally, with spaces matching any whitespace or none, since pdf.js doesn't always emit the space between two text runs. */
+export const phrasePattern = (text: string) => text.split(/\s+/).map(escapeRegExp).join('\\s*')
+
+/** Case-insensitive search for a phrase. */
+export const phraseRegExp = (text: string) => new RegExp(phrasePattern(text.trim()), 'giu')
+
+// Display rects around characters [start, end) of the page text, assuming evenly wide characters within an item
+const matchRects = (items: PageTextItem[], starts: number[], start: number, end: number, g: PageGeometry): PercentRect[] => {
+  const rects: PercentRect[] = []
+  items.forEach((item, i) => {
+    const from = Math.max(start, starts[i]) - starts[i]
+    const to = Math.min(end, starts[i] + item.str.length) - starts[i]
+    if (to <= from) return
+    const [a, b, c, d, e, f] = item.transform
+    const across = Math.hypot(a, b) || 1
+    const up = Math.hypot(c, d) || 1
+    const corners: PercentRect[] = []
+    for (const along of [from, to].map(n => (item.width * n) / item.str.length)) {
+      for (const rise of [0, item.height]) {
+        const { x, y } = pdfPointToPercent(e + (a / across) * along + (c / up) * rise, f + (b / across) * along + (d / up) * rise, g)
+        corners.push({ x, y, w: 0, h: 0 })
+      }
+    }
+    rects.push(boundingRect(corners))
+  })
+  return rects
+}
+
+/** Smallest rect around all of `rects`. */
+export function boundingRect(rects: PercentRect[]): PercentRect {
+  const x = Math.min(...rects.map(r => r.x))
+  const y = Math.min(...rects.map(r => r.y))
+  return { x, y, w: Math.max(...rects.map(r => r.x + r.w)) - x, h: Math.max(...rects.map(r => r.y + r.h)) - y }
+}
+
+/** Display rects of the page's text items, leaving out blank ones. */
+export function textItemRects(items: PageTextItem[], g: PageGeometry): PercentRect[] {
+  return items.filter(item => item.str.trim()).flatMap(item => matchRects([item], [0], 0, item.str.length, g))
+}
+
+/** Every match of the patterns on every page, in reading order; overlapping matches count once. */
+export function findTextMatches(texts: PageTextItem[][], geometries: PageGeometry[], patterns: RegExp[]): TextMatch[] {
+  const matches: TextMatch[] = []
+  texts.forEach((items, pageIndex) => {
+    const g = geometries[pageIndex]
+    if (!g) return
+    // Page text with the offset each item starts at
+    let text = ''
+    const starts = items.map(item => {
+      const start = text.length
+      text += item.str + (item.hasEOL ? '\n' : '')
+      return start
+    })
+    const found = patterns.flatMap(re => Array.from(text.matchAll(re), m => [m.index!, m.index! + m[0].length]))
+      .filter(([start, end]) => end > start)
+      .sort((a, b) => a[0] - b[0] || b[1] - a[1])
+    let lastEnd = -1
+    for (const [start, end] of found) {
+      if (start < lastEnd) continue
+      lastEnd = end
+      const rects = matchRects(items, starts, start, end, g)
+      if (rects.length) matches.push({ pageIndex, text: text.slice(start, end), rects })
+    }
+  })
+  return matches
+}
@@ -0,0 +1,34 @@
+type Size = { width: number, height: number }
+
+/**
+ * Viewer zoom: a factor where 1 shows a page at its real size (100%, 96 CSS pixels per inch),
+ * or a mode resolved against the pages and the space the viewer has for them.
+ */
+export type Zoom = 'auto' | 'fit-width' | 'fit-page' | number
+
+// CSS pixels per PDF point at 100%
+export const CSS_UNITS = 96 / 72
+
+export const MIN_ZOOM = 0.25
+export const MAX_ZOOM = 5
+export const ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4, 5]
+// 'auto' fits the width, but doesn't blow small pages up past this
+const AUTO_MAX_ZOOM = 1.25
+
+export const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom))
+
+/** The zoom factor for a setting; fit modes make the largest page fit `available` (CSS pixels). */
+export function resolveZoom(zoom: Zoom, sizes: Size[], available: Size): number {
+  if (typeof zoom === 'number') return clampZoom(zoom)
+  if (sizes.length === 0 || available.width <= 0) return 1
+  const width = Math.max(...sizes.map(s => s.width)) * CSS_UNITS
+  const height = Math.max(...sizes.map(s => s.height)) * CSS_UNITS
+  const fitWidth = available.width / width
+  if (zoom === 'fit-width') return clampZoom(fitWidth)
+  if (zoom === 'fit-page') return clampZoom(Math.min(fitWidth, available.height / height))
+  return clampZoom(Math.min(fitWidth, AUTO_MAX_ZOOM))
+}
+
+// Small tolerance so a factor a hair off a step (fit modes) still moves to the next one
+export const zoomIn = (zoom: number) => ZOOM_STEPS.find(step => step > zoom * 1.01) ?? MAX_ZOOM
+export const zoomOut = (zoom: number) => [...ZOOM_STEPS].reverse().find(step => step < zoom / 1.01) ?? MIN_ZOOM
@@ -0,0 +1,85 @@
+import type { PercentRect, Placement } from '../../store/appStore'
+import { FormField, openSignatureTargets } from '../pdf/forms'
+import type { PageGeometry } from '../pdf/geometry'
+import { PageTextItem, textItemRects } from '../pdf/textSearch'
+
+/**
+ * Rules a document must meet before it is exported, chosen on this device. Each broken rule is listed
+ * with the page to fix it on; export waits until they pass or the user chooses to export anyway.
+ */
+export type SigningRuleId = 'signatureOnLastPage' | 'initialsOnEveryPage' | 'signatureFieldsFilled' | 'noTextOverlap'
+export type SigningRules = Record<SigningRuleId, boolean>
+export type RuleViolation = { rule: SigningRuleId, pageIndex: number, message: string }
+
+export const SIGNING_RULE_LABELS: Record<SigningRuleId, string> = {
+  signatureOnLastPage: 'A signature on the last page',
+  initialsOnEveryPage: 'Initials on every page',
+  signatureFieldsFilled: 'Every signature field signed',
+  noTextOverlap: 'Nothing placed over page text'
+}
+
+const RULES_KEY = 'pdf-signer.signingRules'
+const NO_RULES: SigningRules = { signatureOnLastPage: false, initialsOnEveryPage: false, signatureFieldsFilled: false, noTextOverlap: false }
+// Share of the smaller of a placement and a text item that must be covered to count as overlapping;
+// boxes that only touch a line of text, as a signature on a signature line does, pass
+const OVERLAP_SHARE = 0.2
+
+const KIND_LABELS: Record<Placement['kind'], string> = { signature: 'Signature', initials: 'Initials', text: 'Text', date: 'Date', mark: 'Mark' }
+
+/** Rules chosen on this device; none until some are turned on. */
+export function getSigningRules(): SigningRules {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RULES_KEY) ?? '{}')
+    return Object.fromEntries(Object.keys(NO_RULES).map(id => [id, saved?.[id] === true])) as SigningRules
+  } catch {
+    return NO_RULES
+  }
+}
+
+export function setSigningRules(rules: SigningRules) {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules))
+}
+
+const overlapArea = (a: PercentRect, b: PercentRect) =>
+  Math.max(0, Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x)) * Math.max(0, Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y))
+
+export type RuleInput = {
+  placements: Placement[]
+  pageCount: number
+  formFields: FormField[]
+  geometries: PageGeometry[]
+  pageTexts: PageTextItem[][] | null // Only needed for noTextOverlap
+}
+
+/** Every way the document breaks the enabled rules, in rule order and then page order. */
+export function checkSigningRules(rules: SigningRules, { placements, pageCount, formFields, geometries, pageTexts }: RuleInput): RuleViolation[] {
+  const violations: RuleViolation[] = []
+  if (pageCount === 0) return violations
+  const last = pageCount - 1
+  if (rules.signatureOnLastPage && !placements.some(p => p.kind === 'signature' && p.pageIndex === last)) {
+    violations.push({ rule: 'signatureOnLastPage', pageIndex: last, message: 'No signature on the last page' })
+  }
+  if (rules.initialsOnEveryPage) {
+    for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+      if (!placements.some(p => p.kind === 'initials' && p.pageIndex === pageIndex)) {
+        violations.push({ rule: 'initialsOnEveryPage', pageIndex, message: `No initials on page ${pageIndex + 1}` })
+      }
+    }
+  }
+  if (rules.signatureFieldsFilled) {
+    openSignatureTargets(formFields, placements).forEach(field => {
+      const pageIndex = Math.min(...field.widgets.map(w => w.pageIndex))
+      if (Number.isFinite(pageIndex)) violations.push({ rule: 'signatureFieldsFilled', pageIndex, message: `Signature field "${field.name}" is empty` })
+    })
+  }
+  if (rules.noTextOverlap && pageTexts) {
+    const textRects = pageTexts.map((items, pageIndex) => geometries[pageIndex] ? textItemRects(items, geometries[pageIndex]) : [])
+    // Signatures snapped into a field sit in its widget, where labels are expected
+    placements.filter(p => !p.field).sort((a, b) => a.pageIndex - b.pageIndex).forEach(p => {
+      const area = p.rect.w * p.rect.h
+      const covers = (textRects[p.pageIndex] ?? []).some(r => overlapArea(p.rect, r) > OVERLAP_SHARE * Math.min(area, r.w * r.h))
+      if (covers) violations.push({ rule: 'noTextOverlap', pageIndex: p.pageIndex, message: `${KIND_LABELS[p.kind]} covers text on page ${p.pageIndex + 1}` })
+    })
+  }
+  return violations
+}
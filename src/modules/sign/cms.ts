@@ -0,0 +1,91 @@
+import forge from 'node-forge'
+import { SigningIdentity, bytesToBinary, binaryToBytes } from './pkcs12'
+
+const { asn1 } = forge
+
+// OIDs not exposed by node-forge's pki.oids table
+export const OID_SIGNED_DATA = '1.2.840.113549.1.7.2'
+export const OID_DATA = '1.2.840.113549.1.7.1'
+export const OID_CONTENT_TYPE = '1.2.840.113549.1.9.3'
+export const OID_MESSAGE_DIGEST = '1.2.840.113549.1.9.4'
+export const OID_SIGNING_TIME = '1.2.840.113549.1.9.5'
+export const OID_SIGNING_CERTIFICATE_V2 = '1.2.840.113549.1.9.16.2.47'
+export const OID_SHA256 = '2.16.840.1.101.3.4.2.1'
+export const OID_RSA_ENCRYPTION = '1.2.840.113549.1.1.1'
+
+const oid = (value: string) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(value).getBytes())
+
+const algorithmIdentifier = (value: string) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    oid(value),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, '')
+  ])
+
+const attribute = (type: string, value: forge.asn1.Asn1) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    oid(type),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [value])
+  ])
+
+const octetString = (binary: string) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, binary)
+
+// ESS signing-certificate-v2 attribute binding the signer certificate to the signature (required by PAdES-B)
+const signingCertificateV2 = (certificate: forge.pki.Certificate) => {
+  const der = asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes()
+  const certHash = forge.md.sha256.create().update(der).digest().getBytes()
+  // hashAlgorithm is omitted because SHA-256 is the DEFAULT value
+  const essCertIdV2 = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [octetString(certHash)])
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [essCertIdV2])
+  ])
+}
+
+/**
+ * Build a detached CAdES (CMS SignedData) signature over a pre-computed SHA-256 digest.
+ * The signing time is intentionally not a signed attribute; PAdES carries it in the /M entry instead.
+ */
+export function createCadesSignature(digest: Uint8Array, identity: SigningIdentity): Uint8Array {
+  const { certificate, chain, privateKey } = identity
+
+  const signedAttributes = [
+    attribute(OID_CONTENT_TYPE, oid(OID_DATA)),
+    attribute(OID_MESSAGE_DIGEST, octetString(bytesToBinary(digest))),
+    attribute(OID_SIGNING_CERTIFICATE_V2, signingCertificateV2(certificate))
+  ]
+
+  // The signature covers the DER encoding of the attributes as a SET OF, not the [0] IMPLICIT form
+  const signedAttributesSet = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, signedAttributes)
+  const md = forge.md.sha256.create()
+  md.update(asn1.toDer(signedAttributesSet).getBytes())
+  const signature = privateKey.sign(md)
+
+  const signerInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(1).getBytes()),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      forge.pki.distinguishedNameToAsn1(certificate.issuer),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, forge.util.hexToBytes(certificate.serialNumber))
+    ]),
+    algorithmIdentifier(OID_SHA256),
+    asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, signedAttributes),
+    algorithmIdentifier(OID_RSA_ENCRYPTION),
+    octetString(signature)
+  ])
+
+  const signedData = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(1).getBytes()),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [algorithmIdentifier(OID_SHA256)]),
+    // Detached: encapsulated content info carries only the content type
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [oid(OID_DATA)]),
+    asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, chain.map(c => forge.pki.certificateToAsn1(c))),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [signerInfo])
+  ])
+
+  const contentInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    oid(OID_SIGNED_DATA),
+    asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [signedData])
+  ])
+
+  return binaryToBytes(asn1.toDer(contentInfo).getBytes())
+}
@@ -0,0 +1,32 @@
+import { PDFAcroSignature, PDFDict, PDFDocument, PDFName } from 'pdf-lib'
+
+export type SignatureField = {
+  name: string
+  field: PDFAcroSignature
+  value: PDFDict // The /V signature dictionary
+}
+
+// List every signature field that already carries a signature value
+export function listSignedFields(pdfDoc: PDFDocument): SignatureField[] {
+  const acroForm = pdfDoc.catalog.getAcroForm()
+  if (!acroForm) return []
+  const out: SignatureField[] = []
+  for (const [field] of acroForm.getAllFields()) {
+    if (!(field instanceof PDFAcroSignature)) continue
+    const value = field.dict.lookupMaybe(PDFName.of('V'), PDFDict)
+    if (!value) continue
+    out.push({ name: field.getFullyQualifiedName() || 'Signature', field, value })
+  }
+  return out
+}
+
+
+// The signature field called `name`, if it exists and hasn't been signed yet
+export function findEmptySignatureField(pdfDoc: PDFDocument, name: string): PDFAcroSignature | undefined {
+  const acroForm = pdfDoc.catalog.getAcroForm()
+  if (!acroForm) return undefined
+  const entry = acroForm.getAllFields().find(([field]) =>
+    field instanceof PDFAcroSignature && field.getFullyQualifiedName() === name && !field.dict.has(PDFName.of('V'))
+  )
+  return entry?.[0] as PDFAcroSignature | undefined
+}
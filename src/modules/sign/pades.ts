@@ -0,0 +1,120 @@
+import { PDFArray, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFString } from 'pdf-lib'
+import { SigningIdentity } from './pkcs12'
+import { createCadesSignature } from './cms'
+import { findEmptySignatureField } from './fields'
+
+// Bytes reserved for the DER-encoded CMS blob (certificate chains rarely exceed a few KB)
+const SIGNATURE_CONTENTS_LENGTH = 16384
+const BYTE_RANGE_PLACEHOLDER = '**********'
+
+export type SignatureInfo = {
+  reason?: string
+  location?: string
+  signingTime?: Date
+  field?: string // Empty signature field to sign; an invisible one is added when missing
+}
+
+const encoder = new TextEncoder()
+
+const indexOf = (haystack: Uint8Array, needle: string, from = 0): number => {
+  const bytes = encoder.encode(needle)
+  outer: for (let i = from; i <= haystack.length - bytes.length; i++) {
+    for (let j = 0; j < bytes.length; j++) {
+      if (haystack[i + j] !== bytes[j]) continue outer
+    }
+    return i
+  }
+  return -1
+}
+
+const uniqueFieldName = (pdfDoc: PDFDocument): string => {
+  const names = new Set(pdfDoc.getForm().getFields().map(f => f.getName()))
+  let n = 1
+  while (names.has(`Signature${n}`)) n++
+  return `Signature${n}`
+}
+
+/**
+ * Sign into `info.field`, or else add an invisible signature field, whose /V dictionary holds a
+ * zero-filled /Contents and a placeholder /ByteRange. The document must then be saved without object streams
+ * so both placeholders stay addressable as plain bytes.
+ */
+export function addSignaturePlaceholder(pdfDoc: PDFDocument, identity: SigningIdentity, info: SignatureInfo = {}) {
+  const { context } = pdfDoc
+  const page = pdfDoc.getPages()[0]
+
+  const signatureDict = context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'ETSI.CAdES.detached',
+    ByteRange: PDFArray.withContext(context),
+    Contents: PDFHexString.of('0'.repeat(SIGNATURE_CONTENTS_LENGTH * 2)),
+    M: PDFString.fromDate(info.signingTime || new Date()),
+    Name: PDFHexString.fromText(identity.certificate.subject.getField('CN')?.value || identity.subject)
+  })
+  const byteRange = signatureDict.lookup(PDFName.of('ByteRange'), PDFArray)
+  byteRange.push(PDFNumber.of(0))
+  for (let i = 0; i < 3; i++) byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER))
+  if (info.reason) signatureDict.set(PDFName.of('Reason'), PDFHexString.fromText(info.reason))
+  if (info.location) signatureDict.set(PDFName.of('Location'), PDFHexString.fromText(info.location))
+  const signatureRef = context.register(signatureDict)
+
+  const target = info.field ? findEmptySignatureField(pdfDoc, info.field) : undefined
+  const acroForm = pdfDoc.catalog.getOrCreateAcroForm()
+  if (target) {
+    // The placed signature is already drawn as its appearance (see write/target.ts)
+    target.dict.set(PDFName.of('V'), signatureRef)
+  } else {
+    const widgetRef = context.register(context.obj({
+      Type: 'Annot',
+      Subtype: 'Widget',
+      FT: 'Sig',
+      Rect: [0, 0, 0, 0],
+      V: signatureRef,
+      T: PDFString.of(uniqueFieldName(pdfDoc)),
+      F: 132, // Print + Locked
+      P: page.ref
+    }))
+    page.node.addAnnot(widgetRef)
+    acroForm.addField(widgetRef)
+  }
+  // SignaturesExist + AppendOnly
+  acroForm.dict.set(PDFName.of('SigFlags'), PDFNumber.of(3))
+}
+
+/**
+ * Fill the placeholders written by addSignaturePlaceholder: compute the final /ByteRange,
+ * digest everything outside /Contents and embed the CAdES signature as hex.
+ */
+export async function embedSignature(pdfBytes: Uint8Array, identity: SigningIdentity): Promise<Uint8Array> {
+  const byteRangeStart = indexOf(pdfBytes, `/ByteRange [ 0 /${BYTE_RANGE_PLACEHOLDER}`)
+  if (byteRangeStart < 0) throw new Error('Signature placeholder not found')
+  const byteRangeEnd = indexOf(pdfBytes, ']', byteRangeStart) + 1
+
+  const contentsStart = indexOf(pdfBytes, '/Contents <', byteRangeEnd) + '/Contents '.length
+  const contentsEnd = indexOf(pdfBytes, '>', contentsStart) + 1
+  if (contentsStart < byteRangeEnd || contentsEnd - contentsStart !== SIGNATURE_CONTENTS_LENGTH * 2 + 2) {
+    throw new Error('Signature contents placeholder not found')
+  }
+
+  const ranges = [0, contentsStart, contentsEnd, pdfBytes.length - contentsEnd]
+  const byteRangeText = `/ByteRange [${ranges.join(' ')}]`
+  const placeholderLength = byteRangeEnd - byteRangeStart
+  if (byteRangeText.length > placeholderLength) throw new Error('Signature byte range does not fit its placeholder')
+
+  const out = new Uint8Array(pdfBytes)
+  out.set(encoder.encode(byteRangeText.padEnd(placeholderLength, ' ')), byteRangeStart)
+
+  const signedContent = new Uint8Array(ranges[1] + ranges[3])
+  signedContent.set(out.subarray(0, ranges[1]), 0)
+  signedContent.set(out.subarray(ranges[2]), ranges[1])
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', signedContent))
+
+  const cms = createCadesSignature(digest, identity)
+  if (cms.length > SIGNATURE_CONTENTS_LENGTH) {
+    throw new Error('Certificate chain too large for the signature placeholder')
+  }
+  const hex = Array.from(cms, b => b.toString(16).padStart(2, '0')).join('')
+  out.set(encoder.encode(hex.padEnd(SIGNATURE_CONTENTS_LENGTH * 2, '0')), contentsStart + 1)
+  return out
+}
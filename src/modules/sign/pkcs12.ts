@@ -0,0 +1,91 @@
+import forge from 'node-forge'
+
+export type SigningIdentity = {
+  privateKey: forge.pki.rsa.PrivateKey
+  certificate: forge.pki.Certificate
+  chain: forge.pki.Certificate[] // End-entity certificate first, followed by any issuers found in the bundle
+  subject: string
+  validTo: Date
+}
+
+// Maximum accepted size for a .p12/.pfx bundle
+export const MAX_PKCS12_SIZE = 1024 * 1024
+
+// Render a distinguished name as a readable "CN=..., O=..." string
+export const formatDistinguishedName = (name: forge.pki.Certificate['subject']): string => {
+  return name.attributes
+    .map(attr => `${attr.shortName || attr.name || attr.type}=${attr.value}`)
+    .join(', ')
+}
+
+// Convert a byte array to the binary string format used by node-forge
+export const bytesToBinary = (bytes: Uint8Array): string => {
+  let out = ''
+  const chunk = 0x8000
+  for (let i = 0; i < bytes.length; i += chunk) {
+    out += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunk)))
+  }
+  return out
+}
+
+export const binaryToBytes = (binary: string) => {
+  const out = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) out[i] = binary.charCodeAt(i) & 0xff
+  return out
+}
+
+const isRsaPrivateKey = (key: unknown): key is forge.pki.rsa.PrivateKey => {
+  return !!key && typeof key === 'object' && 'n' in key && 'd' in key
+}
+
+// Parse a PKCS#12 bundle entirely in memory. The password and key never leave the browser.
+export async function loadSigningIdentity(file: File, password: string): Promise<SigningIdentity> {
+  if (file.size > MAX_PKCS12_SIZE) {
+    throw new Error('Certificate file too large. Maximum size is 1MB.')
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer())
+
+  let p12: forge.pkcs12.Pkcs12Pfx
+  try {
+    const asn1 = forge.asn1.fromDer(bytesToBinary(bytes))
+    p12 = forge.pkcs12.pkcs12FromAsn1(asn1, false, password)
+  } catch (error) {
+    console.error('PKCS#12 parse error:', error)
+    throw new Error('Could not open the certificate. Check the file and password.')
+  }
+
+  const keyBags = [
+    ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || []),
+    ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || [])
+  ]
+  const privateKey = keyBags.map(b => b.key).find(isRsaPrivateKey)
+  if (!privateKey) {
+    throw new Error('No RSA private key found in the certificate file.')
+  }
+
+  const certificates = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [])
+    .map(b => b.cert)
+    .filter((c): c is forge.pki.Certificate => !!c)
+
+  // The signing certificate is the one whose public key matches the private key
+  const certificate = certificates.find(c => {
+    const pub = c.publicKey as forge.pki.rsa.PublicKey
+    return !!pub.n && pub.n.equals(privateKey.n)
+  })
+  if (!certificate) {
+    throw new Error('The certificate file does not contain a certificate for its private key.')
+  }
+
+  const now = new Date()
+  if (now < certificate.validity.notBefore || now > certificate.validity.notAfter) {
+    throw new Error('The signing certificate is expired or not yet valid.')
+  }
+
+  return {
+    privateKey,
+    certificate,
+    chain: [certificate, ...certificates.filter(c => c !== certificate)],
+    subject: formatDistinguishedName(certificate.subject),
+    validTo: certificate.validity.notAfter
+  }
+}
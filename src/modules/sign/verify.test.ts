@@ -0,0 +1,93 @@
+import forge from 'node-forge'
+import { describe, expect, it } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import { createCadesSignature } from './cms'
+import { addSignaturePlaceholder, embedSignature } from './pades'
+import type { SigningIdentity } from './pkcs12'
+import { encryptDocument } from '../pdf/encryption'
+import { verifyPdfSignatures } from './verify'
+
+// A throwaway self-signed identity; small keys keep the test quick
+const identity = ((): SigningIdentity => {
+  const keys = forge.pki.rsa.generateKeyPair({ bits: 1024, e: 0x10001 })
+  const certificate = forge.pki.createCertificate()
+  certificate.publicKey = keys.publicKey
+  certificate.serialNumber = '01'
+  certificate.validity.notBefore = new Date('2026-01-01')
+  certificate.validity.notAfter = new Date('2036-01-01')
+  const name = [{ name: 'commonName', value: 'Test Signer' }]
+  certificate.setSubject(name)
+  certificate.setIssuer(name)
+  certificate.sign(keys.privateKey, forge.md.sha256.create())
+  return { privateKey: keys.privateKey, certificate, chain: [certificate], subject: 'CN=Test Signer', validTo: certificate.validity.notAfter }
+})()
+
+const encoder = new TextEncoder()
+const indexOf = (bytes: Uint8Array, text: string) => Buffer.from(bytes).indexOf(text)
+
+const unsigned = async () => {
+  const pdfDoc = await PDFDocument.create()
+  pdfDoc.addPage([600, 800])
+  addSignaturePlaceholder(pdfDoc, identity)
+  return pdfDoc.save({ useObjectStreams: false })
+}
+
+// Signs like embedSignature, but over `ranges` as given
+const signRanges = async (bytes: Uint8Array, ranges: (contentsStart: number, contentsEnd: number, length: number) => number[]) => {
+  const out = new Uint8Array(bytes)
+  const byteRangeStart = indexOf(out, '/ByteRange [')
+  const byteRangeEnd = out.indexOf(0x5d, byteRangeStart) + 1
+  const contentsStart = indexOf(out, '/Contents <') + '/Contents '.length
+  const contentsEnd = out.indexOf(0x3e, contentsStart) + 1
+  const [start1, length1, start2, length2] = ranges(contentsStart, contentsEnd, out.length)
+  out.set(encoder.encode(`/ByteRange [${[start1, length1, start2, length2].join(' ')}]`.padEnd(byteRangeEnd - byteRangeStart, ' ')), byteRangeStart)
+  const signed = new Uint8Array(length1 + length2)
+  signed.set(out.subarray(start1, length1), 0)
+  signed.set(out.subarray(start2, start2 + length2), length1)
+  const cms = createCadesSignature(new Uint8Array(await crypto.subtle.digest('SHA-256', signed)), identity)
+  out.set(encoder.encode(Array.from(cms, b => b.toString(16).padStart(2, '0')).join('')), contentsStart + 1)
+  return new File([out.buffer as ArrayBuffer], 'signed.pdf', { type: 'application/pdf' })
+}
+
+describe('verifyPdfSignatures', () => {
+  it('accepts a signature whose /ByteRange leaves out just /Contents', async () => {
+    const file = new File([(await embedSignature(await unsigned(), identity)).buffer as ArrayBuffer], 'signed.pdf')
+    const [signature] = await verifyPdfSignatures(file)
+    expect(signature).toMatchObject({ signer: 'CN=Test Signer', digestMatches: true, signatureValid: true, modifiedAfter: false })
+    expect(signature.error).toBeUndefined()
+  })
+
+  it('refuses a /ByteRange that leaves out more than /Contents', async () => {
+    // Validly signed, but the byte before /Contents' string is outside both ranges and could be anything
+    const file = await signRanges(await unsigned(), (start, end, length) => [0, start - 1, end, length - end])
+    const [signature] = await verifyPdfSignatures(file)
+    expect(signature.error).toBe('/ByteRange leaves out more than /Contents')
+    expect(signature.signatureValid).toBe(false)
+  })
+
+  it('refuses a /ByteRange that cuts into /Contents', async () => {
+    const file = await signRanges(await unsigned(), (start, end, length) => [0, start + 2, end, length - end])
+    expect((await verifyPdfSignatures(file))[0].error).toBe('/ByteRange leaves out more than /Contents')
+  })
+})
+
+describe('verifyPdfSignatures on an encrypted file', () => {
+  const encryptedSigned = async () => {
+    const pdfDoc = await PDFDocument.create()
+    pdfDoc.addPage([600, 800])
+    addSignaturePlaceholder(pdfDoc, identity)
+    await encryptDocument(pdfDoc, { userPassword: 'secret', ownerPassword: 'owner' })
+    const bytes = await pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false })
+    return new File([(await embedSignature(bytes, identity)).buffer as ArrayBuffer], 'protected.pdf')
+  }
+
+  it('reads field names with the password', async () => {
+    const [signature] = await verifyPdfSignatures(await encryptedSigned(), 'secret')
+    expect(signature).toMatchObject({ fieldName: 'Signature1', digestMatches: true, signatureValid: true })
+  })
+
+  it('shows a placeholder name without it, and still checks the signature', async () => {
+    const [signature] = await verifyPdfSignatures(await encryptedSigned())
+    expect(signature).toMatchObject({ fieldName: 'Signature 1', digestMatches: true, signatureValid: true })
+  })
+})
@@ -0,0 +1,282 @@
+import forge from 'node-forge'
+import { PDFArray, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFString } from 'pdf-lib'
+import { listSignedFields } from './fields'
+import { bytesToBinary, binaryToBytes } from './pkcs12'
+import { OID_MESSAGE_DIGEST, OID_SIGNING_TIME } from './cms'
+import { decryptPdf } from '../pdf/encryption'
+
+const { asn1 } = forge
+
+export type VerifiedSignature = {
+  fieldName: string
+  signer: string | null
+  signingTime: Date | null
+  // The messageDigest attribute matches the bytes covered by /ByteRange
+  digestMatches: boolean
+  // The CMS signature over the signed attributes verifies with the embedded certificate
+  signatureValid: boolean
+  // Bytes were appended after the signed revision (later edits or later signatures)
+  modifiedAfter: boolean
+  error?: string
+}
+
+type ParsedCertificate = {
+  issuerDer: string
+  serialHex: string
+  subject: string
+  spkiDer: string
+  keyAlgorithm: string
+  curve?: string
+}
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  '1.3.14.3.2.26': 'SHA-1',
+  '2.16.840.1.101.3.4.2.1': 'SHA-256',
+  '2.16.840.1.101.3.4.2.2': 'SHA-384',
+  '2.16.840.1.101.3.4.2.3': 'SHA-512'
+}
+
+const NAMED_CURVES: Record<string, { name: string, size: number }> = {
+  '1.2.840.10045.3.1.7': { name: 'P-256', size: 32 },
+  '1.3.132.0.34': { name: 'P-384', size: 48 },
+  '1.3.132.0.35': { name: 'P-521', size: 66 }
+}
+
+const OID_RSA = '1.2.840.113549.1.1.1'
+const OID_EC_PUBLIC_KEY = '1.2.840.10045.2.1'
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.6': 'C',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '1.2.840.113549.1.9.1': 'E'
+}
+
+const children = (node: forge.asn1.Asn1): forge.asn1.Asn1[] => Array.isArray(node.value) ? node.value : []
+const der = (node: forge.asn1.Asn1): string => asn1.toDer(node).getBytes()
+const oidOf = (node: forge.asn1.Asn1): string => asn1.derToOid(node.value as string)
+const isContext = (node: forge.asn1.Asn1, tag: number) => node.tagClass === asn1.Class.CONTEXT_SPECIFIC && node.type === tag
+
+// /Contents is zero-padded; cut the buffer at the end of the outer DER element
+const trimDer = (bytes: Uint8Array): Uint8Array => {
+  if (bytes.length < 2) return bytes
+  let length = bytes[1]
+  let header = 2
+  if (length & 0x80) {
+    const count = length & 0x7f
+    length = 0
+    for (let i = 0; i < count; i++) length = length * 256 + bytes[2 + i]
+    header += count
+  }
+  return bytes.subarray(0, Math.min(bytes.length, header + length))
+}
+
+const decodeString = (node: forge.asn1.Asn1): string => {
+  const raw = node.value as string
+  if (node.type === asn1.Type.UTF8) return forge.util.decodeUtf8(raw)
+  if (node.type === asn1.Type.BMPSTRING) {
+    let out = ''
+    for (let i = 0; i + 1 < raw.length; i += 2) out += String.fromCharCode((raw.charCodeAt(i) << 8) | raw.charCodeAt(i + 1))
+    return out
+  }
+  return raw
+}
+
+const formatName = (name: forge.asn1.Asn1): string => {
+  return children(name)
+    .flatMap(rdn => children(rdn))
+    .map(atv => {
+      const [type, value] = children(atv)
+      const oid = oidOf(type)
+      return `${NAME_ATTRIBUTES[oid] || oid}=${decodeString(value)}`
+    })
+    .join(', ')
+}
+
+// Minimal X.509 reader; node-forge's parser rejects non-RSA keys, which are common in PAdES
+const parseCertificate = (cert: forge.asn1.Asn1): ParsedCertificate => {
+  const tbs = children(children(cert)[0])
+  const fields = isContext(tbs[0], 0) ? tbs.slice(1) : tbs
+  const [serial, , issuer, , subject, spki] = fields
+  const [algorithm] = children(spki)
+  const [keyOid, params] = children(algorithm)
+  return {
+    issuerDer: der(issuer),
+    serialHex: forge.util.bytesToHex(serial.value as string),
+    subject: formatName(subject),
+    spkiDer: der(spki),
+    keyAlgorithm: oidOf(keyOid),
+    curve: params && params.type === asn1.Type.OID ? oidOf(params) : undefined
+  }
+}
+
+// ECDSA signatures are DER SEQUENCE { r, s } in CMS but raw r||s in WebCrypto
+const ecdsaDerToRaw = (signature: string, size: number) => {
+  const [r, s] = children(asn1.fromDer(signature))
+  const out = new Uint8Array(size * 2)
+  const put = (value: string, at: number) => {
+    const bytes = binaryToBytes(value.replace(/^\x00+/, ''))
+    out.set(bytes.subarray(Math.max(0, bytes.length - size)), at + Math.max(0, size - bytes.length))
+  }
+  put(r.value as string, 0)
+  put(s.value as string, size)
+  return out
+}
+
+const verifyWithCertificate = async (
+  cert: ParsedCertificate, hash: string, data: BufferSource, signature: string
+): Promise<boolean> => {
+  const spki = binaryToBytes(cert.spkiDer)
+  if (cert.keyAlgorithm === OID_RSA) {
+    const key = await crypto.subtle.importKey('spki', spki, { name: 'RSASSA-PKCS1-v1_5', hash }, false, ['verify'])
+    return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, binaryToBytes(signature), data)
+  }
+  const curve = cert.curve && NAMED_CURVES[cert.curve]
+  if (cert.keyAlgorithm === OID_EC_PUBLIC_KEY && curve) {
+    const key = await crypto.subtle.importKey('spki', spki, { name: 'ECDSA', namedCurve: curve.name }, false, ['verify'])
+    return crypto.subtle.verify({ name: 'ECDSA', hash }, key, ecdsaDerToRaw(signature, curve.size), data)
+  }
+  throw new Error('Unsupported signature key type')
+}
+
+// Parse a PDF date string such as D:20240131120000+01'00'
+export const parsePdfDate = (value: string): Date | null => {
+  const m = /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Z+-])?(\d{2})?'?(\d{2})?/.exec(value)
+  if (!m) return null
+  const [, y, mo = '01', d = '01', h = '00', mi = '00', s = '00', tz, tzh = '00', tzm = '00'] = m
+  let time = Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)
+  if (tz === '+' || tz === '-') {
+    const offset = (+tzh * 60 + +tzm) * 60000
+    time += tz === '+' ? -offset : offset
+  }
+  return new Date(time)
+}
+
+const verifyCms = async (cms: Uint8Array, signedBytes: BufferSource) => {
+  const contentInfo = asn1.fromDer(bytesToBinary(trimDer(cms)))
+  const signedData = children(children(contentInfo)[1])[0]
+  const parts = children(signedData)
+  const certificates = parts.filter(p => isContext(p, 0)).flatMap(children).map(parseCertificate)
+  const signerInfos = children(parts[parts.length - 1])
+  if (signerInfos.length === 0) throw new Error('No signer information')
+
+  const signerInfo = children(signerInfos[0])
+  const [, sid, digestAlgorithm] = signerInfo
+  const signedAttrs = signerInfo.find(n => isContext(n, 0))
+  const signature = signerInfo[signerInfo.length - 1].value as string
+
+  const hash = DIGEST_ALGORITHMS[oidOf(children(digestAlgorithm)[0])]
+  if (!hash) throw new Error('Unsupported digest algorithm')
+
+  // IssuerAndSerialNumber is by far the most common signer identifier
+  const [sidIssuer, sidSerial] = children(sid)
+  const signer = sidSerial
+    ? certificates.find(c => c.issuerDer === der(sidIssuer) && c.serialHex === forge.util.bytesToHex(sidSerial.value as string))
+    : certificates[0]
+
+  const contentDigest = bytesToBinary(new Uint8Array(await crypto.subtle.digest(hash, signedBytes)))
+  let digestMatches = false
+  let signingTime: Date | null = null
+  let signedPayload: BufferSource = signedBytes
+  if (signedAttrs) {
+    for (const attr of children(signedAttrs)) {
+      const [type, values] = children(attr)
+      const value = children(values)[0]
+      const oid = oidOf(type)
+      if (oid === OID_MESSAGE_DIGEST) digestMatches = value.value === contentDigest
+      if (oid === OID_SIGNING_TIME) {
+        signingTime = value.type === asn1.Type.UTCTIME
+          ? asn1.utcTimeToDate(value.value as string)
+          : asn1.generalizedTimeToDate(value.value as string)
+      }
+    }
+    // Signed attributes are signed as a SET OF, not in their [0] IMPLICIT form
+    const encoded = der(signedAttrs)
+    signedPayload = binaryToBytes('\x31' + encoded.slice(1))
+  }
+
+  let signatureValid = false
+  if (signer) {
+    signatureValid = await verifyWithCertificate(signer, hash, signedPayload, signature)
+    // Without signed attributes the signature covers the content directly
+    if (!signedAttrs) digestMatches = signatureValid
+  }
+  return { signer: signer?.subject ?? null, signingTime, digestMatches, signatureValid }
+}
+
+// The bytes /ByteRange leaves out must be exactly the <hex> string of /Contents, or they could hide
+// unsigned content that still reads as signed
+const isContentsHex = (gap: Uint8Array, contents: Uint8Array) => {
+  if (gap.length !== contents.length * 2 + 2 || gap[0] !== 0x3c || gap[gap.length - 1] !== 0x3e) return false
+  const hex = new TextDecoder().decode(gap.subarray(1, -1))
+  return /^[0-9a-f]*$/i.test(hex) && contents.every((byte, i) => parseInt(hex.slice(i * 2, i * 2 + 2), 16) === byte)
+}
+
+const isWhitespace = (bytes: Uint8Array) => bytes.every(b => b === 0x0a || b === 0x0d || b === 0x20 || b === 0x00)
+
+/**
+ * Check every signed field in the document against its embedded CMS data. Runs fully offline.
+ * Field names and dates of an encrypted file are encrypted as well: they are read from a decrypted copy
+ * when `password` opens it (an empty one opens owner-only files), and replaced by placeholders otherwise.
+ */
+export async function verifyPdfSignatures(file: File, password: string | null = null): Promise<VerifiedSignature[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let pdfDoc: PDFDocument
+  let readable = true
+  try {
+    pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false })
+    if (pdfDoc.isEncrypted) {
+      // Decrypting keeps /ByteRange and /Contents as they are; the ranges are still checked on the file itself
+      try {
+        pdfDoc = await PDFDocument.load((await decryptPdf(bytes, password ?? '')).bytes, { updateMetadata: false })
+      } catch {
+        readable = false
+      }
+    }
+  } catch (error) {
+    console.warn('Signature inspection failed:', error)
+    return []
+  }
+
+  const results: VerifiedSignature[] = []
+  for (const { name, value } of listSignedFields(pdfDoc)) {
+    const result: VerifiedSignature = {
+      fieldName: readable ? name : `Signature ${results.length + 1}`,
+      signer: null,
+      signingTime: null,
+      digestMatches: false,
+      signatureValid: false,
+      modifiedAfter: false
+    }
+    const m = readable ? value.lookupMaybe(PDFName.of('M'), PDFString, PDFHexString) : undefined
+    result.signingTime = m ? parsePdfDate(m.decodeText()) : null
+
+    try {
+      const range = value.lookupMaybe(PDFName.of('ByteRange'), PDFArray)
+      const contents = value.lookupMaybe(PDFName.of('Contents'), PDFHexString)
+      if (!range || range.size() !== 4 || !contents) throw new Error('Missing /ByteRange or /Contents')
+      const [start1, length1, start2, length2] = range.asArray().map(n => (n as PDFNumber).asNumber())
+      if (start1 !== 0 || start2 + length2 > bytes.length || start2 < length1) throw new Error('Invalid /ByteRange')
+      if (!isContentsHex(bytes.subarray(length1, start2), contents.asBytes())) throw new Error('/ByteRange leaves out more than /Contents')
+
+      const signedBytes = new Uint8Array(length1 + length2)
+      signedBytes.set(bytes.subarray(0, length1), 0)
+      signedBytes.set(bytes.subarray(start2, start2 + length2), length1)
+      result.modifiedAfter = !isWhitespace(bytes.subarray(start2 + length2))
+
+      const verified = await verifyCms(contents.asBytes(), signedBytes)
+      result.signer = verified.signer
+      result.signingTime = verified.signingTime || result.signingTime
+      result.digestMatches = verified.digestMatches
+      result.signatureValid = verified.signatureValid
+    } catch (error) {
+      console.warn(`Signature "${name}" could not be verified:`, error)
+      result.error = error instanceof Error ? error.message : 'Could not verify signature'
+    }
+    results.push(result)
+  }
+  return results
+}
@@ -0,0 +1,46 @@
+/**
+ * The app's IndexedDB database: everything kept on this device between visits. Each feature owns
+ * one object store of key/value records; see session.ts, library.ts and templates.ts.
+ */
+const DB_NAME = 'pdf-signer'
+const DB_VERSION = 3
+const STORES = ['session', 'library', 'templates']
+
+let db: Promise<IDBDatabase> | null = null
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = () => {
+    STORES.forEach(name => {
+      if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name)
+    })
+  }
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+/** Result of a request, once it succeeds. */
+export const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+/**
+ * Run `work` in one transaction on the object store `name` and resolve once the transaction has
+ * committed. `work` must only queue requests; awaiting anything else would end the transaction early.
+ */
+export async function inTransaction<T>(name: string, mode: IDBTransactionMode, work: (store: IDBObjectStore) => Promise<T>): Promise<T> {
+  if (!db) {
+    db = openDb()
+    // Private browsing may refuse IndexedDB; try again next time
+    db.catch(() => { db = null })
+  }
+  const transaction = (await db).transaction(name, mode)
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'))
+  })
+  const [result] = await Promise.all([work(transaction.objectStore(name)), done])
+  return result
+}
@@ -0,0 +1,25 @@
+import type { PercentRect } from '../../store/appStore'
+
+/**
+ * Type guards for JSON read from files the user opens (envelopes, templates): parsed as `unknown`
+ * and narrowed field by field, so nothing unchecked reaches the app.
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export const isArray = (value: unknown): value is unknown[] => Array.isArray(value)
+
+export const isPageIndex = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+// As #rrggbb
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)
+
+/** A rect within the page, in display percentages. */
+export const isPercentRect = (value: unknown): value is PercentRect =>
+  isRecord(value) && ['x', 'y', 'w', 'h'].every(key => {
+    const n = value[key]
+    return typeof n === 'number' && n >= 0 && n <= 100
+  })
+
+/** Just the rect's coordinates, without anything else the file put next to them. */
+export const percentRectOf = ({ x, y, w, h }: PercentRect): PercentRect => ({ x, y, w, h })
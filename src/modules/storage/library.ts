@@ -0,0 +1,41 @@
+import type { InitialsContent, SignatureContent, SignatureMethod, SignatureVector } from '../../store/appStore'
+import { inTransaction, requestResult } from './db'
+
+/**
+ * Signatures and initials saved for reuse, kept on this device. Each item keeps its preview image,
+ * which doubles as its thumbnail, and its vector source like a placement does.
+ */
+export type LibrarySlot = 'signature' | 'initials'
+export type LibraryItem = {
+  id: string
+  name: string
+  slot: LibrarySlot
+  imageDataUrl: string
+  method: SignatureMethod
+  createdAt: string
+  isDefault: boolean // Selected when the app starts; at most one per slot
+} & SignatureVector
+
+const STORE = 'library'
+
+/** What placing the item puts on the page. */
+export const libraryItemContent = (item: LibraryItem): SignatureContent | InitialsContent => ({
+  kind: item.slot, imageDataUrl: item.imageDataUrl, method: item.method, strokes: item.strokes, typed: item.typed
+})
+
+/** Every saved item, oldest first. */
+export async function loadLibrary(): Promise<LibraryItem[]> {
+  const items = await inTransaction(STORE, 'readonly', store => requestResult(store.getAll()) as Promise<LibraryItem[]>)
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/** Add or replace items, all in one transaction. */
+export function putLibraryItems(items: LibraryItem[]) {
+  return inTransaction(STORE, 'readwrite', async store => {
+    items.forEach(item => store.put(item, item.id))
+  })
+}
+
+export function deleteLibraryItem(id: string) {
+  return inTransaction(STORE, 'readwrite', async store => { store.delete(id) })
+}
@@ -0,0 +1,119 @@
+import type { Placement, SignatureMethod, SignatureVector, StampContent } from '../../store/appStore'
+import type { Envelope } from '../envelope/envelope'
+import type { PageSlot } from '../pdf/pages'
+import { inTransaction, requestResult } from './db'
+
+/**
+ * The working session kept on this device, so a reload or a closed tab can resume it. The PDF is
+ * written once per file, merged PDFs when they change, the rest after every change. Passwords and
+ * signing certificates are never stored: a protected file asks for its password again when resumed.
+ */
+export type SessionState = {
+  placements: Placement[]
+  currentSignature: string | null
+  currentSignatureMethod: SignatureMethod
+  currentSignatureVector: SignatureVector | null
+  currentStamp: StampContent | null
+  envelope: Envelope | null
+  envelopeSignerId: string | null
+  envelopeReceived: boolean
+  pageLayout: PageSlot[] | null
+  mergedFiles: File[]
+}
+export type SavedSession = SessionState & { file: File, savedAt: number }
+// How long a session is kept after its last change; 'off' keeps none
+export type SessionRetention = 'off' | 'hour' | 'day' | 'week' | 'forever'
+
+const STORE = 'session'
+const RETENTION_KEY = 'pdf-signer.sessionRetention'
+const RETENTION_MS: Record<SessionRetention, number> = {
+  off: 0,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  forever: Infinity
+}
+
+// Files are stored as bytes: some browsers have trouble storing File objects
+type StoredFile = { name: string, type: string, lastModified: number, bytes: ArrayBuffer }
+type StoredState = Omit<SessionState, 'mergedFiles'> & { savedAt: number }
+
+// Writes run one after another, so a state is never stored ahead of the file it belongs to
+let queue: Promise<unknown> = Promise.resolve()
+// Files last written or read, which needn't be written again
+let storedFile: File | null = null
+let storedMerged: File[] = []
+
+const storedFileOf = async (file: File): Promise<StoredFile> =>
+  ({ name: file.name, type: file.type, lastModified: file.lastModified, bytes: await file.arrayBuffer() })
+
+const fileOf = (record: StoredFile) => new File([record.bytes], record.name, { type: record.type, lastModified: record.lastModified })
+
+const enqueue = (write: () => Promise<unknown>) => {
+  queue = queue.then(write).catch(error => console.warn('Session not saved:', error))
+  return queue
+}
+
+/** Retention chosen on this device; kept outside IndexedDB so it applies before a session is read. */
+export function getSessionRetention(): SessionRetention {
+  const value = localStorage.getItem(RETENTION_KEY)
+  return value && value in RETENTION_MS ? value as SessionRetention : 'week'
+}
+
+export function setSessionRetention(retention: SessionRetention) {
+  localStorage.setItem(RETENTION_KEY, retention)
+}
+
+export function saveSessionFile(file: File) {
+  if (file === storedFile) return queue
+  storedFile = file
+  storedMerged = []
+  return enqueue(async () => {
+    const record = await storedFileOf(file)
+    // A new file starts a new session; the previous one's state no longer applies
+    await inTransaction(STORE, 'readwrite', async store => {
+      store.put(record, 'file')
+      store.delete('state')
+      store.delete('merged')
+    })
+  })
+}
+
+export function saveSessionState(state: SessionState) {
+  const { mergedFiles, ...rest } = state
+  const record: StoredState = { ...rest, savedAt: Date.now() }
+  const mergedChanged = mergedFiles.length !== storedMerged.length || mergedFiles.some((file, i) => file !== storedMerged[i])
+  storedMerged = mergedFiles
+  return enqueue(async () => {
+    const merged = mergedChanged ? await Promise.all(mergedFiles.map(storedFileOf)) : null
+    await inTransaction(STORE, 'readwrite', async store => {
+      if (merged) store.put(merged, 'merged')
+      store.put(record, 'state')
+    })
+  })
+}
+
+export function discardSavedSession() {
+  storedFile = null
+  storedMerged = []
+  return enqueue(() => inTransaction(STORE, 'readwrite', async store => { store.clear() }))
+}
+
+/** The session saved by an earlier visit, unless there is none or it has expired (and is then discarded). */
+export async function loadSavedSession(retention: SessionRetention): Promise<SavedSession | null> {
+  await queue
+  const [file, state, merged] = await inTransaction(STORE, 'readonly', store => Promise.all([
+    requestResult(store.get('file')) as Promise<StoredFile | undefined>,
+    requestResult(store.get('state')) as Promise<StoredState | undefined>,
+    requestResult(store.get('merged')) as Promise<StoredFile[] | undefined>
+  ]))
+  if (!file || !state) return null
+  if (Date.now() - state.savedAt > RETENTION_MS[retention]) {
+    await discardSavedSession()
+    return null
+  }
+  storedFile = fileOf(file)
+  storedMerged = (merged ?? []).map(fileOf)
+  // Sessions saved before page operations have no layout
+  return { ...state, pageLayout: state.pageLayout ?? null, mergedFiles: storedMerged, file: storedFile }
+}
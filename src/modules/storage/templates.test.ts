@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { parseTemplateFile } from './templates'
+
+const style = { font: 'sans', size: 12, color: '#000000' }
+const template = {
+  id: 't1',
+  name: 'Lease',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  pageSizes: [{ width: 612, height: 792 }],
+  placements: [
+    { kind: 'signature', pageIndex: 0, rect: { x: 10, y: 80, w: 30, h: 8 }, imageDataUrl: 'data:image/png;base64,AAAA' },
+    { kind: 'text', pageIndex: 0, rect: { x: 10, y: 10, w: 30, h: 4 }, text: 'Tenant', style },
+    { kind: 'date', pageIndex: 0, rect: { x: 50, y: 80, w: 20, h: 4 }, format: 'iso', locale: 'en-US', style },
+    { kind: 'mark', pageIndex: 0, rect: { x: 5, y: 5, w: 3, h: 3 }, mark: 'check', color: '#166534' }
+  ]
+}
+const parse = (data: unknown) => parseTemplateFile(JSON.stringify(data))
+
+describe('parseTemplateFile', () => {
+  it('reads valid templates, keeping only known fields', () => {
+    const [parsed] = parse({ version: 1, templates: [template] })
+    expect(parsed.placements.map(p => p.kind)).toEqual(['signature', 'text', 'date', 'mark'])
+    expect(parsed.placements[0]).toEqual({ kind: 'signature', pageIndex: 0, rect: { x: 10, y: 80, w: 30, h: 8 } })
+  })
+
+  it.each([
+    ['an unknown kind', { kind: 'image', pageIndex: 0, rect: { x: 0, y: 0, w: 1, h: 1 } }],
+    ['a rect off the page', { kind: 'signature', pageIndex: 0, rect: { x: -1, y: 0, w: 1, h: 1 } }],
+    ['an unknown font', { kind: 'text', pageIndex: 0, rect: { x: 0, y: 0, w: 1, h: 1 }, text: 'x', style: { ...style, font: 'toString' } }],
+    ['an unknown date format', { kind: 'date', pageIndex: 0, rect: { x: 0, y: 0, w: 1, h: 1 }, format: 'full', locale: 'en', style }],
+    ['a mark without a color', { kind: 'mark', pageIndex: 0, rect: { x: 0, y: 0, w: 1, h: 1 }, mark: 'check' }],
+    ['a null placement', null]
+  ])('drops %s', (_, placement) => {
+    const [parsed] = parse({ version: 1, templates: [{ ...template, placements: [...template.placements, placement] }] })
+    expect(parsed.placements).toHaveLength(4)
+  })
+
+  it('drops templates with invalid page sizes', () => {
+    const broken = { ...template, id: 't2', pageSizes: [{ width: 612, height: 0 }] }
+    expect(parse({ version: 1, templates: [template, broken, 'template'] }).map(t => t.id)).toEqual(['t1'])
+  })
+
+  it.each([
+    ['invalid JSON', '{'],
+    ['another version', JSON.stringify({ version: 2, templates: [template] })],
+    ['no valid templates', JSON.stringify({ version: 1, templates: [{ ...template, id: '' }] })]
+  ])('refuses %s', (_, json) => {
+    expect(() => parseTemplateFile(json)).toThrow()
+  })
+})
@@ -0,0 +1,126 @@
+import type {
+  DateContent, DateFormat, MarkContent, MarkType, PercentRect, Placement, Size, TextContent, TextStyle
+} from '../../store/appStore'
+import { TEXT_FONTS } from '../fonts/signatureFonts'
+import { inTransaction, requestResult } from './db'
+import { isArray, isHexColor, isPageIndex, isPercentRect, isRecord, percentRectOf } from './guards'
+
+/**
+ * Layouts of placements saved for forms signed again and again, kept on this device. Signatures and
+ * initials are recorded by kind only, never as images: applying a template places whatever is
+ * current then. Text, date and mark stamps keep their settings, which hold no image data.
+ */
+export type TemplatePlacement = { pageIndex: number, rect: PercentRect } & ({ kind: 'signature' } | { kind: 'initials' } | TextContent | DateContent | MarkContent)
+export type PlacementTemplate = {
+  id: string
+  name: string
+  createdAt: string
+  pageSizes: Size[] // Of the document it was made on, to warn when applied to a different layout
+  placements: TemplatePlacement[]
+}
+// Exported file of templates
+export type TemplateFile = { version: 1, templates: PlacementTemplate[] }
+
+const STORE = 'templates'
+export const MAX_TEMPLATES = 50
+export const MAX_TEMPLATE_NAME_LENGTH = 50
+// Page sizes within this many points of each other count as the same
+const SIZE_TOLERANCE = 1
+
+/** Why `pageSizes` don't match the template's, or null when they do. */
+export function templateMismatch(template: PlacementTemplate, pageSizes: Size[]): string | null {
+  if (template.pageSizes.length !== pageSizes.length) {
+    return `The template was made for a ${template.pageSizes.length}-page document; this one has ${pageSizes.length} page${pageSizes.length !== 1 ? 's' : ''}.`
+  }
+  const differs = pageSizes.findIndex((size, i) =>
+    Math.abs(size.width - template.pageSizes[i].width) > SIZE_TOLERANCE || Math.abs(size.height - template.pageSizes[i].height) > SIZE_TOLERANCE)
+  return differs < 0 ? null : `Page ${differs + 1} has a different size than in the document the template was made for.`
+}
+
+/** Every saved template, oldest first. */
+export async function loadTemplates(): Promise<PlacementTemplate[]> {
+  const templates = await inTransaction(STORE, 'readonly', store => requestResult(store.getAll()) as Promise<PlacementTemplate[]>)
+  return templates.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/** Add or replace templates, all in one transaction. */
+export function putTemplates(templates: PlacementTemplate[]) {
+  return inTransaction(STORE, 'readwrite', async store => {
+    templates.forEach(template => store.put(template, template.id))
+  })
+}
+
+export function deleteTemplate(id: string) {
+  return inTransaction(STORE, 'readwrite', async store => { store.delete(id) })
+}
+
+const isSize = (s: unknown): s is Size =>
+  isRecord(s) && typeof s.width === 'number' && typeof s.height === 'number' && s.width > 0 && s.height > 0
+const isStyle = (s: unknown): s is TextStyle =>
+  isRecord(s) && typeof s.font === 'string' && Object.prototype.hasOwnProperty.call(TEXT_FONTS, s.font) && typeof s.size === 'number' && s.size > 0 && s.size <= 200 && isHexColor(s.color)
+const isDateFormat = (f: unknown): f is DateFormat => f === 'long' || f === 'medium' || f === 'short' || f === 'iso'
+const isMarkType = (m: unknown): m is MarkType => m === 'check' || m === 'cross'
+const styleOf = (s: TextStyle): TextStyle => ({ font: s.font, size: s.size, color: s.color })
+
+// The placement's kind and settings, without anything else the file may carry; null when invalid
+const templatePlacement = (p: unknown): TemplatePlacement | null => {
+  if (!isRecord(p) || !isPageIndex(p.pageIndex) || !isPercentRect(p.rect)) return null
+  const position = { pageIndex: p.pageIndex, rect: percentRectOf(p.rect) }
+  switch (p.kind) {
+    case 'signature':
+      return { ...position, kind: 'signature' }
+    case 'initials':
+      return { ...position, kind: 'initials' }
+    case 'text':
+      return typeof p.text === 'string' && isStyle(p.style) ? { ...position, kind: 'text', text: p.text.slice(0, 500), style: styleOf(p.style) } : null
+    case 'date':
+      return isDateFormat(p.format) && typeof p.locale === 'string' && isStyle(p.style)
+        ? { ...position, kind: 'date', format: p.format, locale: p.locale, style: styleOf(p.style) } : null
+    case 'mark':
+      return isMarkType(p.mark) && isHexColor(p.color) ? { ...position, kind: 'mark', mark: p.mark, color: p.color } : null
+    default:
+      return null
+  }
+}
+
+/** Read an exported templates file, checking its shape; throws with a message to show when it isn't one. */
+export function parseTemplateFile(json: string): PlacementTemplate[] {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('This file is not a templates file (invalid JSON).')
+  }
+  if (!isRecord(data) || data.version !== 1 || !isArray(data.templates)) throw new Error('This file is not a templates file.')
+  const templates: PlacementTemplate[] = data.templates.flatMap(t => {
+    if (!isRecord(t) || typeof t.id !== 'string' || !t.id || !isArray(t.pageSizes) || !isArray(t.placements)) return []
+    const pageSizes = t.pageSizes.filter(isSize)
+    if (pageSizes.length !== t.pageSizes.length) return []
+    return [{
+      id: t.id,
+      name: Array.from(String(t.name ?? '')).slice(0, MAX_TEMPLATE_NAME_LENGTH).join('') || 'Template',
+      createdAt: typeof t.createdAt === 'string' ? t.createdAt : new Date().toISOString(),
+      pageSizes: pageSizes.map(s => ({ width: s.width, height: s.height })),
+      placements: t.placements.map(templatePlacement).filter(p => p !== null)
+    }]
+  })
+  if (templates.length === 0) throw new Error('The file has no valid templates.')
+  return templates
+}
+
+/** What a template keeps of a placement: where it is and its kind, and the settings of a stamp without images. */
+export function templatePlacementOf(placement: Placement): TemplatePlacement {
+  const position = { pageIndex: placement.pageIndex, rect: placement.rect }
+  switch (placement.kind) {
+    case 'signature':
+      return { ...position, kind: 'signature' }
+    case 'initials':
+      return { ...position, kind: 'initials' }
+    case 'text':
+      return { ...position, kind: 'text', text: placement.text, style: placement.style }
+    case 'date':
+      return { ...position, kind: 'date', format: placement.format, locale: placement.locale, style: placement.style }
+    case 'mark':
+      return { ...position, kind: 'mark', mark: placement.mark, color: placement.color }
+  }
+}
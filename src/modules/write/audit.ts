@@ -0,0 +1,100 @@
+import { PDFDocument, PDFFont, PageSizes, StandardFonts, rgb } from 'pdf-lib'
+import { Placement, PlacementKind, SignatureMethod } from '../../store/appStore'
+
+export type AuditPlacement = {
+  id: string
+  pageNumber: number
+  kind: PlacementKind
+  method?: SignatureMethod // Signatures and initials
+  placedAt: string
+}
+
+export type AuditRecord = {
+  documentName: string
+  generatedAt: string
+  originalSha256: string
+  // Hash of the document with all placements applied, i.e. the bytes preceding the audit page update
+  signedSha256: string
+  // Encrypted output is rewritten as a whole, so signedSha256 then covers the unencrypted document
+  outputEncrypted: boolean
+  // Hash of the downloaded file; only known once the audit page is written, so it lives in the JSON record
+  outputSha256?: string
+  digitalSignature: string | null
+  placements: AuditPlacement[]
+}
+
+export const sha256Hex = async (bytes: Uint8Array): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array(bytes)))
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export const createAuditRecord = (
+  documentName: string, placements: Placement[], originalSha256: string, signedSha256: string, digitalSignature: string | null,
+  outputEncrypted = false
+): AuditRecord => ({
+  documentName,
+  generatedAt: new Date().toISOString(),
+  originalSha256,
+  signedSha256,
+  outputEncrypted,
+  digitalSignature,
+  placements: placements.map(p => ({
+    id: p.id, pageNumber: p.pageIndex + 1, kind: p.kind, method: p.kind === 'signature' || p.kind === 'initials' ? p.method : undefined, placedAt: p.placedAt
+  }))
+})
+
+// Standard fonts only cover WinAnsi; replace anything else so drawText cannot throw
+const toWinAnsi = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+
+const METHOD_LABELS: Record<SignatureMethod, string> = {
+  draw: 'Drawn',
+  type: 'Typed',
+  upload: 'Uploaded image'
+}
+
+const KIND_LABELS: Record<Exclude<PlacementKind, 'signature'>, string> = {
+  initials: 'Initials',
+  text: 'Text',
+  date: 'Date',
+  mark: 'Check mark'
+}
+
+/** Append a certificate-of-completion page (or pages, for long placement lists) summarizing the record. */
+export async function appendAuditPage(pdfDoc: PDFDocument, record: AuditRecord) {
+  const regular = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+  const mono = await pdfDoc.embedFont(StandardFonts.Courier)
+  const margin = 50
+  const muted = rgb(0.42, 0.45, 0.5)
+
+  let page = pdfDoc.addPage(PageSizes.A4)
+  let y = page.getHeight() - margin
+  const line = (text: string, font: PDFFont = regular, size = 10, color = rgb(0.07, 0.09, 0.15)) => {
+    if (y < margin + size) {
+      page = pdfDoc.addPage(PageSizes.A4)
+      y = page.getHeight() - margin
+    }
+    page.drawText(toWinAnsi(text), { x: margin, y, size, font, color })
+    y -= size * 1.6
+  }
+
+  line('Certificate of Completion', bold, 18)
+  y -= 6
+  line(`Document: ${record.documentName}`)
+  line(`Generated: ${record.generatedAt}`)
+  line(`Digital signature: ${record.digitalSignature || 'none'}`)
+  y -= 8
+  line('SHA-256 of original file', bold)
+  line(record.originalSha256, mono, 9)
+  line(record.outputEncrypted
+    ? 'SHA-256 of signed document (unencrypted, before this page was added)'
+    : 'SHA-256 of signed document (all bytes before this page\'s revision)', bold)
+  line(record.signedSha256, mono, 9)
+  line('The final file hash is listed in the accompanying JSON audit record.', regular, 8, muted)
+  y -= 8
+  line(`Placements (${record.placements.length})`, bold)
+  record.placements.forEach((p, i) => {
+    const label = p.kind === 'signature' ? `${METHOD_LABELS[p.method!]} signature` : KIND_LABELS[p.kind]
+    line(`${i + 1}. Page ${p.pageNumber} - ${label} - placed ${p.placedAt}`)
+  })
+}
@@ -1,5 +1,51 @@
-import { PDFDocument } from 'pdf-lib'
+import { PDFDocument, PDFFont, PDFImage, degrees, drawImage } from 'pdf-lib'
+import fontkit from '@pdf-lib/fontkit'
 import { Placement } from '../../store/appStore'
+import { SigningIdentity } from '../sign/pkcs12'
+import { addSignaturePlaceholder, embedSignature } from '../sign/pades'
+import { beginIncrementalUpdate, saveIncremental } from './incremental'
+import { geometryFromPdfLibPage, placementDrawParams } from '../pdf/geometry'
+import { drawStrokes } from './strokes'
+import { FontRun, drawTypedSignature } from './typed'
+import { loadSignatureFontBytes, textFontRuns, typedSignatureRuns } from '../fonts/signatureFonts'
+import type { TextRun } from '../fonts/textRuns'
+import { drawMark, drawTextStamp, stampLines } from './stamps'
+import { AuditRecord, appendAuditPage, createAuditRecord, sha256Hex } from './audit'
+import { OriginalProtection, OutputEncryption, decryptPdf, encryptDocument, isEncryptedPdf, keepProtection } from '../pdf/encryption'
+import type { FormValue } from '../pdf/forms'
+import { fillForm, findFieldWidget } from './forms'
+import { appearanceTarget, pageTarget } from './target'
+import { findEmptySignatureField } from '../sign/fields'
+import { Envelope, currentSigner } from '../envelope/envelope'
+import type { PlacementTemplate, TemplateFile } from '../storage/templates'
+import { ZipEntry, createZip } from './zip'
+import type { PageSlot } from '../pdf/pages'
+import { arrangePages } from './pages'
+
+// 'incremental' appends changes after the original bytes; 'rewrite' lets pdf-lib rebuild the file
+export type SaveMode = 'incremental' | 'rewrite'
+
+export type ExportOptions = {
+  // When set, the output carries a PAdES-B-B digital signature made with this identity
+  signingIdentity?: SigningIdentity | null
+  saveMode?: SaveMode
+  // Append a certificate-of-completion page and return a matching JSON audit record
+  auditTrail?: boolean
+  // Password that opened an encrypted input; an empty password is tried when omitted
+  password?: string | null
+  // Password-protect the output with new passwords (permissions default to those of an encrypted input), or
+  // keep the input's protection
+  encryption?: OutputEncryption | KeptProtection | null
+  // Edited AcroForm values by field name; the form stays fillable unless flattenForm is set
+  formValues?: Record<string, FormValue>
+  flattenForm?: boolean
+  // Rotated, deleted, moved, blank and merged pages; placement page indexes refer to the arranged pages
+  pages?: { layout: PageSlot[], merged: File[] } | null
+}
+
+// The input's protection, as far as the password that opened it allows (see OriginalProtection);
+// ownerPassword stands in for an owner password it can't recover
+export type KeptProtection = { original: true, ownerPassword: string }
 
 // Utility function to sanitize filenames
 const sanitizeFilename = (filename: string): string => {
@@ -13,65 +59,203 @@ const sanitizeFilename = (filename: string): string => {
     || 'document' // Fallback if empty
 }
 
-export async function exportSignedPdf(file: File, placements: Placement[]) {
-  try {
-    const bytes = new Uint8Array(await file.arrayBuffer())
-    const pdfDoc = await PDFDocument.load(bytes)
+export type SignedPdfResult = {
+  bytes: Uint8Array
+  auditRecord?: AuditRecord
+}
 
-  // Embed each signature image at its page/rect
-  const cache = new Map<string, any>()
+/** Apply placements (and optionally an audit page and digital signature) and return the output bytes. */
+export async function buildSignedPdf(file: File, placements: Placement[], options: ExportOptions = {}): Promise<SignedPdfResult> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let source: Uint8Array = bytes
+  let inputPermissions: number | undefined
+  let inputProtection: OriginalProtection | null = null
+  const encryptedInput = await isEncryptedPdf(bytes)
+  if (encryptedInput) {
+    const decrypted = await decryptPdf(bytes, options.password ?? '')
+    source = decrypted.bytes
+    inputPermissions = decrypted.permissions
+    inputProtection = decrypted.protection
+  }
+  // Appending needs the original objects as they are, so encrypted input or output, or a rebuilt page
+  // tree, forces a rewrite
+  const incremental = options.saveMode === 'incremental' && !encryptedInput && !options.encryption && !options.pages
+  // Leave the Info dictionary alone when appending so the update stays minimal
+  let pdfDoc = await PDFDocument.load(source, { updateMetadata: !incremental })
+  let base = incremental ? beginIncrementalUpdate(source, pdfDoc) : null
+  if (options.pages) await arrangePages(pdfDoc, options.pages.layout, options.pages.merged)
+
+  // Fill (and flatten) the form first so signatures are drawn above the field appearances
+  const formValues = options.formValues ?? {}
+  if (Object.keys(formValues).length > 0 || options.flattenForm) {
+    fillForm(pdfDoc, formValues, !!options.flattenForm)
+  }
+
+  // Draw each placement at its page/rect: drawn signatures as vector paths, typed names, initials and
+  // stamps as text, marks as paths, uploads as images (each embedded once, by data URL)
+  const images = new Map<string, PDFImage>()
+  // Embedded fonts by subset file, shared by all text
+  const fonts = new Map<string, PDFFont>()
+  const embedRuns = async (textRuns: TextRun[]) => {
+    const runs: FontRun[] = []
+    for (const run of textRuns) {
+      let font = fonts.get(run.subset.url)
+      if (!font) {
+        font = await pdfDoc.embedFont(await loadSignatureFontBytes(run.subset.url), { subset: true })
+        fonts.set(run.subset.url, font)
+      }
+      runs.push({ text: run.text, font })
+    }
+    return runs
+  }
+  // Date stamps show the signing date, the same for every stamp and the digital signature
+  const signedAt = new Date()
+  pdfDoc.registerFontkit(fontkit)
   for (const p of placements) {
     const page = pdfDoc.getPages()[p.pageIndex]
-    const { width: pageWidth, height: pageHeight } = page.getSize()
-    
-    let img = cache.get(p.imageDataUrl)
-    if (!img) {
-      try {
-        // Try PNG first, then fall back to JPEG
-        img = await pdfDoc.embedPng(p.imageDataUrl)
-      } catch {
-        img = await pdfDoc.embedJpg(p.imageDataUrl)
+    const geometry = geometryFromPdfLibPage(page)
+
+    // Convert from display percentages to user space, honouring /Rotate and the CropBox origin
+    const params = placementDrawParams(p.rect, geometry)
+    const { x, y, width, height, rotate } = params
+
+    // A signature snapped into a form field becomes that widget's appearance; if the field is gone
+    // (e.g. flattened away) it is drawn on the page instead
+    const widget = p.field ? findFieldWidget(pdfDoc, p.field, p.pageIndex) : undefined
+    const target = widget ? appearanceTarget(pdfDoc, widget) : pageTarget(page)
+
+    if (p.kind === 'text' || p.kind === 'date') {
+      const lines = await Promise.all(stampLines(p, signedAt).map(line => textFontRuns(line, p.style.font).then(embedRuns)))
+      drawTextStamp(target, lines, p.style, params)
+    } else if (p.kind === 'mark') {
+      drawMark(target, p.mark, p.color, params)
+    } else if ((p.kind === 'signature' || p.kind === 'initials') && p.strokes) {
+      drawStrokes(target, p.strokes, params)
+    } else if (p.typed) {
+      drawTypedSignature(target, await embedRuns(await typedSignatureRuns(p.typed)), params)
+    } else {
+      let img = images.get(p.imageDataUrl)
+      if (!img) {
+        try {
+          // Try PNG first, then fall back to JPEG
+          img = await pdfDoc.embedPng(p.imageDataUrl)
+        } catch {
+          img = await pdfDoc.embedJpg(p.imageDataUrl)
+        }
+        images.set(p.imageDataUrl, img)
       }
-      cache.set(p.imageDataUrl, img)
+      target.push(...drawImage(target.image(img), {
+        x, y, width, height, rotate: degrees(rotate), xSkew: degrees(0), ySkew: degrees(0)
+      }))
     }
-    
-    // Convert from percentage coordinates to PDF coordinates
-    const pdfX = (p.rect.x / 100) * pageWidth
-    const pdfY = pageHeight - ((p.rect.y + p.rect.h) / 100) * pageHeight  // PDF has bottom-left origin
-    const pdfW = (p.rect.w / 100) * pageWidth
-    const pdfH = (p.rect.h / 100) * pageHeight
-    
-    console.log(`PDF Export Debug:`)
-    console.log(`  Page: ${pageWidth.toFixed(1)}x${pageHeight.toFixed(1)}`)
-    console.log(`  Percent: (${p.rect.x.toFixed(1)}%, ${p.rect.y.toFixed(1)}%, ${p.rect.w.toFixed(1)}%, ${p.rect.h.toFixed(1)}%)`)
-    console.log(`  PDF coords: (${pdfX.toFixed(1)}, ${pdfY.toFixed(1)}, ${pdfW.toFixed(1)}, ${pdfH.toFixed(1)})`)
-    
-    page.drawImage(img, { 
-      x: pdfX, 
-      y: pdfY, 
-      width: pdfW, 
-      height: pdfH 
-    })
+    target.finish?.()
   }
 
-  const out = await pdfDoc.save()
-  const arrayBuffer = new Uint8Array(out).buffer
-  const blob = new Blob([arrayBuffer], { type: 'application/pdf' })
+  let auditRecord: AuditRecord | undefined
+  if (options.auditTrail) {
+    // Write the stamped document out, then append the audit page as an incremental update so the
+    // hash printed on that page can be checked against the output's leading bytes
+    const stamped = base ? await saveIncremental(pdfDoc, base) : await pdfDoc.save()
+    auditRecord = createAuditRecord(
+      file.name,
+      placements,
+      await sha256Hex(bytes),
+      await sha256Hex(stamped),
+      options.signingIdentity?.subject || null,
+      !!options.encryption
+    )
+    pdfDoc = await PDFDocument.load(stamped, { updateMetadata: false })
+    base = beginIncrementalUpdate(stamped, pdfDoc)
+    await appendAuditPage(pdfDoc, auditRecord)
+  }
+
+  let out: Uint8Array
+  if (options.signingIdentity) {
+    // Sign into the first empty signature field a signature was snapped into, if any
+    const field = placements.find(p => p.field && findEmptySignatureField(pdfDoc, p.field))?.field
+    addSignaturePlaceholder(pdfDoc, options.signingIdentity, { reason: 'Signed with PDF Signer', signingTime: signedAt, field })
+  }
+  if (options.encryption) {
+    if ('original' in options.encryption) {
+      if (!inputProtection) throw new Error('Only a protected PDF has a protection to keep.')
+      await keepProtection(pdfDoc, inputProtection, options.encryption.ownerPassword)
+    } else {
+      await encryptDocument(pdfDoc, { ...options.encryption, permissions: options.encryption.permissions ?? inputPermissions })
+    }
+    out = await pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false })
+  } else if (base) {
+    out = await saveIncremental(pdfDoc, base)
+  } else {
+    // Object streams would compress a signature placeholder out of reach, so keep every object plain
+    out = await pdfDoc.save({ useObjectStreams: !options.signingIdentity })
+  }
+  if (options.signingIdentity) {
+    out = await embedSignature(out, options.signingIdentity)
+  }
+  if (auditRecord) {
+    auditRecord.outputSha256 = await sha256Hex(out)
+  }
+  return { bytes: out, auditRecord }
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
-  
-  // Sanitize the original filename and create secure download name
-  const originalName = file.name.replace(/\.pdf$/i, '') || 'document'
-  const sanitizedName = sanitizeFilename(originalName)
-  a.download = `${sanitizedName}-signed.pdf`
-  
-    document.body.appendChild(a)
-    a.click()
-    a.remove()
-    URL.revokeObjectURL(url)
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(url)
+}
+
+// Sanitize the original filename and create secure download names
+export const downloadName = (name: string) => sanitizeFilename(name.replace(/\.pdf$/i, '') || 'document')
+
+const downloadPdf = (bytes: Uint8Array, filename: string) =>
+  downloadBlob(new Blob([new Uint8Array(bytes).buffer], { type: 'application/pdf' }), filename)
+
+const downloadJson = (data: unknown, filename: string) =>
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename)
+
+export async function exportSignedPdf(file: File, placements: Placement[], options: ExportOptions = {}) {
+  try {
+    const { bytes, auditRecord } = await buildSignedPdf(file, placements, options)
+    const name = downloadName(file.name)
+    downloadPdf(bytes, `${name}-signed.pdf`)
+    if (auditRecord) downloadJson(auditRecord, `${name}-audit.json`)
   } catch (error) {
     console.error('PDF export error:', error)
     throw new Error('Failed to export PDF. The file may be corrupted or incompatible.')
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Build the PDF with this round's placements and download it with the envelope, which records the
+ * PDF's hash. Files are named after the original document, so every round's package looks alike;
+ * once `envelope` has no signer left, the PDF is the finished document.
+ */
+export async function exportEnvelopePackage(file: File, placements: Placement[], envelope: Envelope, options: ExportOptions = {}) {
+  try {
+    const { bytes, auditRecord } = await buildSignedPdf(file, placements, options)
+    const name = downloadName(envelope.documentName || file.name)
+    downloadPdf(bytes, currentSigner(envelope) ? `${name}-envelope.pdf` : `${name}-signed.pdf`)
+    downloadJson({ ...envelope, documentSha256: await sha256Hex(bytes) }, `${name}-envelope.json`)
+    if (auditRecord) downloadJson(auditRecord, `${name}-audit.json`)
+  } catch (error) {
+    console.error('Envelope export error:', error)
+    throw new Error('Failed to export the envelope. The file may be corrupted or incompatible.')
+  }
+}
+
+/** Download placement templates as a JSON file another browser can import. */
+export function exportTemplates(templates: PlacementTemplate[]) {
+  const file: TemplateFile = { version: 1, templates }
+  downloadJson(file, templates.length === 1 ? `${sanitizeFilename(templates[0].name)}-template.json` : 'signing-templates.json')
+}
+
+/** Download files as one ZIP archive (batch signing). */
+export function exportZip(entries: ZipEntry[], filename: string) {
+  const zip = createZip(entries)
+  downloadBlob(new Blob([zip.buffer as ArrayBuffer], { type: 'application/zip' }), filename)
+}
@@ -0,0 +1,56 @@
+import {
+  PDFArray, PDFCheckBox, PDFDocument, PDFDropdown, PDFOptionList, PDFRadioGroup, PDFRef, PDFSignature, PDFTextField,
+  PDFWidgetAnnotation
+} from 'pdf-lib'
+import type { FormValue } from '../pdf/forms'
+
+/**
+ * Write edited form values into the document and optionally flatten the form.
+ *
+ * Only fields the user changed are touched, so untouched fields keep their original appearance.
+ * New appearances use pdf-lib's default Helvetica, which covers WinAnsi (Latin) text only.
+ */
+export function fillForm(pdfDoc: PDFDocument, values: Record<string, FormValue>, flatten: boolean) {
+  // getForm() would create an empty AcroForm, so leave documents without one alone
+  if (!pdfDoc.catalog.getAcroForm()) return
+  const form = pdfDoc.getForm()
+
+  for (const [name, value] of Object.entries(values)) {
+    const field = form.getFieldMaybe(name)
+    if (!field || field.isReadOnly()) continue
+    if (field instanceof PDFTextField) field.setText(String(value) || undefined)
+    else if (field instanceof PDFCheckBox) value ? field.check() : field.uncheck()
+    else if (field instanceof PDFRadioGroup) value ? field.select(String(value)) : field.clear()
+    else if (field instanceof PDFDropdown || field instanceof PDFOptionList) value ? field.select(String(value)) : field.clear()
+  }
+  // Saving with updateFieldAppearances: false (encrypted output) would skip this, so do it here
+  form.updateFieldAppearances()
+
+  if (!flatten) return
+  // pdf-lib flattens every field; detach signature fields meanwhile so they (and any signatures) stay interactive
+  const detached: [PDFArray, number, PDFRef][] = []
+  for (const field of form.getFields()) {
+    if (!(field instanceof PDFSignature)) continue
+    const siblings = field.acroField.getParent()?.Kids() ?? form.acroForm.Fields()
+    const index = siblings?.indexOf(field.ref)
+    if (!siblings || index === undefined) continue
+    siblings.remove(index)
+    detached.unshift([siblings, index, field.ref])
+  }
+  form.flatten()
+  detached.forEach(([siblings, index, ref]) => siblings.insert(index, ref))
+}
+
+/** The widget of field `name` on the given page, e.g. the signature field a placement was snapped into. */
+export function findFieldWidget(pdfDoc: PDFDocument, name: string, pageIndex: number): PDFWidgetAnnotation | undefined {
+  if (!pdfDoc.catalog.getAcroForm()) return undefined
+  const field = pdfDoc.getForm().getFieldMaybe(name)
+  const page = pdfDoc.getPage(pageIndex)
+  const annots = page.node.Annots()
+  return field?.acroField.getWidgets().find(widget => {
+    const pageRef = widget.P()
+    if (pageRef) return pageRef === page.ref
+    const ref = pdfDoc.context.getObjectRef(widget.dict)
+    return !!ref && annots?.indexOf(ref) !== undefined
+  })
+}
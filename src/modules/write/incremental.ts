@@ -0,0 +1,152 @@
+import { PDFDocument, PDFName, PDFObject, PDFRawStream, PDFRef, PDFStream } from 'pdf-lib'
+
+/**
+ * Incremental (append-only) saving.
+ *
+ * pdf-lib always rewrites the whole file, which invalidates every existing /ByteRange
+ * signature. Instead we snapshot the parsed objects right after loading, let the caller
+ * edit the document as usual, and then append only new or changed objects followed by a
+ * cross-reference section whose /Prev points at the original one.
+ */
+export type IncrementalBase = {
+  bytes: Uint8Array
+  prevXrefOffset: number
+  usesXrefStream: boolean
+  snapshot: Map<string, string>
+  streams: Map<string, PDFObject>
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder('latin1')
+
+// Look for the last "startxref" keyword in the file trailer
+const readStartXref = (bytes: Uint8Array): number => {
+  const tail = decoder.decode(bytes.subarray(Math.max(0, bytes.length - 2048)))
+  const match = /^startxref\s+(\d+)/.exec(tail.slice(Math.max(0, tail.lastIndexOf('startxref'))))
+  if (!match) throw new Error('Could not locate the cross-reference table')
+  return parseInt(match[1], 10)
+}
+
+// /Size of the previous section; object streams and xref streams are not kept in the
+// pdf-lib context, so largestObjectNumber alone could reuse one of their numbers
+const readTrailerSize = (bytes: Uint8Array, xrefOffset: number): number => {
+  const section = decoder.decode(bytes.subarray(xrefOffset, Math.min(bytes.length, xrefOffset + 64 * 1024)))
+  const trailerStart = section.startsWith('xref') ? section.indexOf('trailer') : 0
+  const match = /\/Size\s+(\d+)/.exec(section.slice(Math.max(0, trailerStart)))
+  return match ? parseInt(match[1], 10) : 0
+}
+
+const serialize = (object: PDFObject): Uint8Array => {
+  const buffer = new Uint8Array(object.sizeInBytes())
+  object.copyBytesInto(buffer, 0)
+  return buffer
+}
+
+const snapshotKey = (object: PDFObject): string => {
+  // Streams are compared by identity and dictionary; re-serializing content would be costly
+  return object instanceof PDFStream ? object.dict.toString() : object.toString()
+}
+
+/** Capture the state of a freshly loaded document. Call before making any edits. */
+export function beginIncrementalUpdate(bytes: Uint8Array, pdfDoc: PDFDocument): IncrementalBase {
+  const prevXrefOffset = readStartXref(bytes)
+  const usesXrefStream = decoder.decode(bytes.subarray(prevXrefOffset, prevXrefOffset + 4)) !== 'xref'
+
+  const { context } = pdfDoc
+  context.largestObjectNumber = Math.max(context.largestObjectNumber, readTrailerSize(bytes, prevXrefOffset) - 1)
+
+  const snapshot = new Map<string, string>()
+  const streams = new Map<string, PDFObject>()
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    snapshot.set(ref.tag, snapshotKey(object))
+    if (object instanceof PDFStream) streams.set(ref.tag, object)
+  }
+  return { bytes, prevXrefOffset, usesXrefStream, snapshot, streams }
+}
+
+/** Serialize the edits made since beginIncrementalUpdate as an update appended to the original bytes. */
+export async function saveIncremental(pdfDoc: PDFDocument, base: IncrementalBase): Promise<Uint8Array> {
+  await pdfDoc.flush()
+  const { context } = pdfDoc
+
+  const changed = context.enumerateIndirectObjects()
+    .filter(([ref, object]) => {
+      const before = base.snapshot.get(ref.tag)
+      if (before === undefined) return true
+      if (object instanceof PDFStream && base.streams.get(ref.tag) !== object) return true
+      return before !== snapshotKey(object)
+    })
+    .sort(([a], [b]) => a.objectNumber - b.objectNumber)
+
+  const chunks: Uint8Array[] = []
+  let offset = base.bytes.length
+  const push = (chunk: Uint8Array | string) => {
+    const data = typeof chunk === 'string' ? encoder.encode(chunk) : chunk
+    chunks.push(data)
+    offset += data.length
+  }
+
+  // Make sure the update starts on a fresh line even if the original lacks a trailing EOL
+  push('\n')
+  const offsets: Array<[PDFRef, number]> = []
+  for (const [ref, object] of changed) {
+    offsets.push([ref, offset])
+    push(`${ref.objectNumber} ${ref.generationNumber} obj\n`)
+    push(serialize(object))
+    push('\nendobj\n')
+  }
+
+  const { Root, Info, ID, Encrypt } = context.trailerInfo
+  const xrefOffset = offset
+  if (base.usesXrefStream) {
+    // A file whose latest section is an xref stream must be continued with another xref stream
+    const xrefRef = context.nextRef()
+    offsets.push([xrefRef, xrefOffset])
+    const data = new Uint8Array(offsets.length * 7)
+    offsets.forEach(([ref, entryOffset], i) => {
+      data[i * 7] = 1
+      for (let b = 0; b < 4; b++) data[i * 7 + 1 + b] = (entryOffset >>> (8 * (3 - b))) & 0xff
+      data[i * 7 + 5] = (ref.generationNumber >> 8) & 0xff
+      data[i * 7 + 6] = ref.generationNumber & 0xff
+    })
+    const xrefStream = context.stream(data, {
+      Type: 'XRef',
+      Size: context.largestObjectNumber + 1,
+      W: [1, 4, 2],
+      Index: offsets.flatMap(([ref]) => [ref.objectNumber, 1]),
+      Prev: base.prevXrefOffset
+    }) as PDFRawStream
+    if (Root) xrefStream.dict.set(PDFName.of('Root'), Root)
+    if (Info) xrefStream.dict.set(PDFName.of('Info'), Info)
+    if (ID) xrefStream.dict.set(PDFName.of('ID'), ID)
+    if (Encrypt) xrefStream.dict.set(PDFName.of('Encrypt'), Encrypt)
+    push(`${xrefRef.objectNumber} 0 obj\n`)
+    push(serialize(xrefStream))
+    push('\nendobj\n')
+  } else {
+    let table = 'xref\n'
+    // One subsection per object keeps the table simple and valid
+    for (const [ref, entryOffset] of offsets) {
+      table += `${ref.objectNumber} 1\n${String(entryOffset).padStart(10, '0')} ${String(ref.generationNumber).padStart(5, '0')} n\r\n`
+    }
+    push(table)
+    const trailer = context.obj({ Size: context.largestObjectNumber + 1, Prev: base.prevXrefOffset })
+    if (Root) trailer.set(PDFName.of('Root'), Root)
+    if (Info) trailer.set(PDFName.of('Info'), Info)
+    if (ID) trailer.set(PDFName.of('ID'), ID)
+    if (Encrypt) trailer.set(PDFName.of('Encrypt'), Encrypt)
+    push('trailer\n')
+    push(serialize(trailer))
+    push('\n')
+  }
+  push(`startxref\n${xrefOffset}\n%%EOF\n`)
+
+  const out = new Uint8Array(offset)
+  out.set(base.bytes, 0)
+  let position = base.bytes.length
+  for (const chunk of chunks) {
+    out.set(chunk, position)
+    position += chunk.length
+  }
+  return out
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import { buildSignedPdf } from './export'
+import { pagesOf } from '../pdf/pages'
+
+// Two pages: "name" on page 1, "notes" on page 2, and "initials" with a widget on each
+const formPdf = async () => {
+  const doc = await PDFDocument.create()
+  const [first, second] = [doc.addPage([600, 800]), doc.addPage([600, 800])]
+  const form = doc.getForm()
+  form.createTextField('name').addToPage(first, { x: 50, y: 700, width: 200, height: 20 })
+  form.createTextField('notes').addToPage(second, { x: 50, y: 700, width: 200, height: 20 })
+  const initials = form.createTextField('initials')
+  initials.addToPage(first, { x: 500, y: 50, width: 50, height: 20 })
+  initials.addToPage(second, { x: 500, y: 50, width: 50, height: 20 })
+  return new File([(await doc.save()).buffer as ArrayBuffer], 'form.pdf', { type: 'application/pdf' })
+}
+
+const withoutSecondPage = { layout: pagesOf(0, 1), merged: [] }
+
+describe('deleting a page with form fields', () => {
+  it('removes its fields and widgets from the form', async () => {
+    const { bytes } = await buildSignedPdf(await formPdf(), [], { pages: withoutSecondPage })
+    const doc = await PDFDocument.load(bytes)
+    const fields = doc.getForm().getFields()
+    expect(fields.map(f => f.getName()).sort()).toEqual(['initials', 'name'])
+    expect(fields.find(f => f.getName() === 'initials')!.acroField.getWidgets()).toHaveLength(1)
+    expect(doc.getPageCount()).toBe(1)
+  })
+
+  it('exports with the form flattened', async () => {
+    const { bytes } = await buildSignedPdf(await formPdf(), [], {
+      pages: withoutSecondPage, formValues: { name: 'Ada', initials: 'AL' }, flattenForm: true
+    })
+    const doc = await PDFDocument.load(bytes)
+    expect(doc.getForm().getFields()).toHaveLength(0)
+    expect(doc.getPageCount()).toBe(1)
+  })
+
+  it('keeps every field when no page is deleted', async () => {
+    const { bytes } = await buildSignedPdf(await formPdf(), [], { pages: { layout: [...pagesOf(0, 2)].reverse(), merged: [] } })
+    const doc = await PDFDocument.load(bytes)
+    expect(doc.getForm().getFields().map(f => f.getName()).sort()).toEqual(['initials', 'name', 'notes'])
+  })
+})
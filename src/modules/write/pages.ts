@@ -0,0 +1,90 @@
+import { PDFDocument, PDFPage, PDFRef, degrees } from 'pdf-lib'
+import type { PageSlot } from '../pdf/pages'
+import { decryptPdf, isEncryptedPdf } from '../pdf/encryption'
+
+// Same limit as a file opened on its own
+const MAX_MERGE_SIZE = 50 * 1024 * 1024
+
+/** How many pages a PDF to merge has; throws a message for the user when it can't be merged. */
+export async function mergeablePageCount(file: File): Promise<number> {
+  if (file.size > MAX_MERGE_SIZE) throw new Error('PDF file too large. Maximum size is 50MB.')
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  if (bytes.length < 4 || bytes[0] !== 0x25 || bytes[1] !== 0x50 || bytes[2] !== 0x44 || bytes[3] !== 0x46) {
+    throw new Error('Invalid PDF file format.')
+  }
+  if (await isEncryptedPdf(bytes)) throw new Error("Password-protected PDFs can't be merged. Please remove the password first.")
+  try {
+    return (await PDFDocument.load(bytes, { updateMetadata: false })).getPageCount()
+  } catch (error) {
+    console.error('Merge check failed:', error)
+    throw new Error('Failed to read the PDF to merge. The file may be corrupted or incompatible.')
+  }
+}
+
+// Merged files are never protected: mergeablePageCount refuses those that are
+const loadMerged = async (files: File[]) =>
+  Promise.all(files.map(async file => PDFDocument.load(new Uint8Array(await file.arrayBuffer()), { updateMetadata: false })))
+
+// Widgets of deleted pages would point at pages no longer in the document, and flattening the form
+// fails on them: take them out of their fields, and remove fields left without widgets. Runs while the
+// pages are still in the page tree, where pdf-lib looks a removed field's widgets up.
+function removeWidgetsOn(pdfDoc: PDFDocument, deleted: PDFPage[]) {
+  if (deleted.length === 0 || !pdfDoc.catalog.getAcroForm()) return
+  const deletedRefs = new Set(deleted.map(page => page.ref))
+  // Widgets don't always name their page (/P), so also index every page's annotations
+  const pageOfRef = new Map<PDFRef, PDFRef>()
+  pdfDoc.getPages().forEach(page => page.node.Annots()?.asArray().forEach(annot => {
+    if (annot instanceof PDFRef) pageOfRef.set(annot, page.ref)
+  }))
+  const form = pdfDoc.getForm()
+  for (const field of form.getFields()) {
+    const widgets = field.acroField.getWidgets()
+    const onDeleted = widgets.map(widget => {
+      const ref = pdfDoc.context.getObjectRef(widget.dict)
+      const page = widget.P() ?? (ref && pageOfRef.get(ref))
+      return !!page && deletedRefs.has(page)
+    })
+    if (!onDeleted.some(Boolean)) continue
+    if (onDeleted.every(Boolean)) {
+      form.removeField(field)
+    } else {
+      for (let i = widgets.length - 1; i >= 0; i--) if (onDeleted[i]) field.acroField.removeWidget(i)
+    }
+  }
+}
+
+/**
+ * Rebuild the page tree of `pdfDoc` as `layout` arranges it: pages of `merged` files are copied in,
+ * deleted ones dropped, blank ones added, and rotations added to each page's /Rotate.
+ */
+export async function arrangePages(pdfDoc: PDFDocument, layout: PageSlot[], merged: File[]): Promise<void> {
+  const own = pdfDoc.getPages()
+  // Each merged file's pages are copied in once, in the order the layout uses them
+  const copied = await Promise.all((await loadMerged(merged)).map(async (doc, i) => {
+    const used = layout.flatMap(slot => slot.kind === 'page' && slot.file === i + 1 ? [slot.pageIndex] : [])
+    const pages = await pdfDoc.copyPages(doc, used)
+    return new Map(used.map((pageIndex, j) => [pageIndex, pages[j]]))
+  }))
+  removeWidgetsOn(pdfDoc, own.filter((_, i) => !layout.some(slot => slot.kind === 'page' && slot.file === 0 && slot.pageIndex === i)))
+  for (let i = own.length - 1; i >= 0; i--) pdfDoc.removePage(i)
+  layout.forEach((slot, i) => {
+    let page: PDFPage
+    if (slot.kind === 'blank') {
+      page = pdfDoc.insertPage(i, [slot.width, slot.height])
+    } else {
+      const source = slot.file === 0 ? own[slot.pageIndex] : copied[slot.file - 1]?.get(slot.pageIndex)
+      if (!source) throw new Error(`Page ${slot.pageIndex + 1} of file ${slot.file} not found`)
+      page = pdfDoc.insertPage(i, source)
+    }
+    if (slot.rotation) page.setRotation(degrees((((page.getRotation().angle + slot.rotation) % 360) + 360) % 360))
+  })
+}
+
+/** The opened file with its pages arranged, unprotected, for the viewer and the form panel. */
+export async function arrangedPdfFile(file: File, password: string | null, layout: PageSlot[], merged: File[]): Promise<File> {
+  let bytes: Uint8Array = new Uint8Array(await file.arrayBuffer())
+  if (await isEncryptedPdf(bytes)) bytes = (await decryptPdf(bytes, password ?? '')).bytes
+  const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false })
+  await arrangePages(pdfDoc, layout, merged)
+  return new File([(await pdfDoc.save()).buffer as ArrayBuffer], file.name, { type: 'application/pdf' })
+}
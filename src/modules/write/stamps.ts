@@ -0,0 +1,111 @@
+import {
+  LineCapStyle, LineJoinStyle, clip, concatTransformationMatrix, degrees, drawText, endPath, lineTo, moveTo,
+  popGraphicsState, pushGraphicsState, rectangle, setLineCap, setLineJoin, setLineWidth, setStrokingColor, stroke
+} from 'pdf-lib'
+import type { DateContent, DateFormat, MarkType, TextContent, TextStyle } from '../../store/appStore'
+import { DrawParams } from '../pdf/geometry'
+import { DrawTarget } from './target'
+import { FontRun, hexToRgb } from './typed'
+
+/**
+ * Text, date and check/cross stamps. Unlike signatures they are not stretched to their box: text keeps
+ * its point size and is clipped to the box, the way the viewer shows it. Marks scale with the box.
+ */
+
+// Padding around the text and line spacing (CSS line-height), shared with the viewer overlay
+export const STAMP_LAYOUT = { padding: 2, lineHeight: 1.2 }
+
+// Mark strokes as polylines in a unit square with a top-left origin; stroked at this fraction of the box
+export const MARK_PATHS: Record<MarkType, [number, number][][]> = {
+  check: [[[0.15, 0.55], [0.4, 0.8], [0.85, 0.2]]],
+  cross: [[[0.2, 0.2], [0.8, 0.8]], [[0.8, 0.2], [0.2, 0.8]]]
+}
+export const MARK_STROKE = 0.12
+
+export const DATE_FORMATS: Record<DateFormat, string> = {
+  long: 'Long (January 31, 2025)',
+  medium: 'Medium (Jan 31, 2025)',
+  short: 'Short (1/31/25)',
+  iso: 'ISO (2025-01-31)'
+}
+
+const MAX_STAMP_TEXT_LENGTH = 500
+
+/** Text stamp input: NFC, line breaks kept, control and bidi override characters removed, length limited. */
+export const sanitizeStampText = (text: string) => Array.from(
+  text.normalize('NFC').split(/\r\n?|\n/)
+    .map(line => line.replace(/[\p{Cc}\p{Cs}\p{Co}\p{Cn}\u200E\u200F\u202A-\u202E\u2066-\u2069]/gu, ''))
+    .join('\n')
+).slice(0, MAX_STAMP_TEXT_LENGTH).join('')
+
+/** A signing date in the given format; an unknown locale falls back to the browser's. */
+export function formatStampDate(date: Date, format: DateFormat, locale: string): string {
+  if (format === 'iso') {
+    return [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(n => String(n).padStart(2, '0')).join('-')
+  }
+  try {
+    return new Intl.DateTimeFormat(locale || undefined, { dateStyle: format }).format(date)
+  } catch {
+    return new Intl.DateTimeFormat(undefined, { dateStyle: format }).format(date)
+  }
+}
+
+/** The lines a text or date stamp shows; dates are filled in with `date`. */
+export const stampLines = (stamp: TextContent | DateContent, date: Date) =>
+  stamp.kind === 'text' ? stamp.text.split('\n') : [formatStampDate(date, stamp.format, stamp.locale)]
+
+/** Draw lines of text (each split into font runs) top-aligned in the placement box. */
+export function drawTextStamp(target: DrawTarget, lines: FontRun[][], style: TextStyle, params: DrawParams) {
+  const { padding, lineHeight } = STAMP_LAYOUT
+  const { size } = style
+  const angle = (params.rotate * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+
+  target.push(
+    pushGraphicsState(),
+    concatTransformationMatrix(cos, sin, -sin, cos, params.x, params.y),
+    rectangle(0, 0, params.width, params.height),
+    clip(),
+    endPath()
+  )
+  lines.forEach((runs, i) => {
+    if (runs.length === 0) return
+    // Place the baseline like CSS does: half the leading above the font's ascent
+    const ascent = Math.max(...runs.map(r => r.font.heightAtSize(size, { descender: false })))
+    const height = Math.max(...runs.map(r => r.font.heightAtSize(size)))
+    const y = params.height - padding - i * size * lineHeight - (size * lineHeight - height) / 2 - ascent
+    let x = padding
+    for (const run of runs) {
+      target.push(...drawText(run.font.encodeText(run.text), {
+        x, y, size, font: target.font(run.font), color: hexToRgb(style.color),
+        rotate: degrees(0), xSkew: degrees(0), ySkew: degrees(0)
+      }))
+      x += run.font.widthOfTextAtSize(run.text, size)
+    }
+  })
+  target.push(popGraphicsState())
+}
+
+/** Stroke a check or cross mark across the placement box. */
+export function drawMark(target: DrawTarget, mark: MarkType, color: string, params: DrawParams) {
+  const { width, height } = params
+  const angle = (params.rotate * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+
+  const ops = [
+    pushGraphicsState(),
+    concatTransformationMatrix(cos, sin, -sin, cos, params.x, params.y),
+    setLineCap(LineCapStyle.Round),
+    setLineJoin(LineJoinStyle.Round),
+    setLineWidth(MARK_STROKE * Math.min(width, height)),
+    setStrokingColor(hexToRgb(color))
+  ]
+  for (const path of MARK_PATHS[mark]) {
+    path.forEach(([x, y], i) => ops.push((i === 0 ? moveTo : lineTo)(x * width, (1 - y) * height)))
+    ops.push(stroke())
+  }
+  ops.push(popGraphicsState())
+  target.push(...ops)
+}
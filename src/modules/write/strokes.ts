@@ -0,0 +1,127 @@
+import {
+  LineCapStyle, LineJoinStyle, appendBezierCurve, concatTransformationMatrix, lineTo, moveTo,
+  popGraphicsState, pushGraphicsState, setLineCap, setLineJoin, setLineWidth, setStrokingRgbColor, stroke
+} from 'pdf-lib'
+import type { BasicPoint, PointGroup } from 'signature_pad'
+import type { SignatureStrokes } from '../../store/appStore'
+import { DrawParams } from '../pdf/geometry'
+import { DrawTarget } from './target'
+
+/**
+ * Vector rendering of signature_pad strokes.
+ *
+ * Curves are rebuilt exactly as signature_pad does when it draws or exports SVG (same control
+ * points and velocity-based widths), then each curve is stroked with round caps at its own width.
+ */
+
+type Curve = { start: BasicPoint, c1: BasicPoint, c2: BasicPoint, end: BasicPoint, width: number }
+type Dot = { at: BasicPoint, width: number }
+
+// signature_pad's toSVG strokes each curve at 2.25x its end radius to match the filled canvas rendering
+const SVG_STROKE_FACTOR = 2.25
+
+const distance = (a: BasicPoint, b: BasicPoint) => Math.hypot(a.x - b.x, a.y - b.y)
+
+const velocity = (end: BasicPoint, start: BasicPoint) => end.time !== start.time ? distance(end, start) / (end.time - start.time) : 0
+
+// Control points around s2 (Bezier.calculateControlPoints in signature_pad)
+const controlPoints = (s1: BasicPoint, s2: BasicPoint, s3: BasicPoint) => {
+  const m1 = { x: (s1.x + s2.x) / 2, y: (s1.y + s2.y) / 2 }
+  const m2 = { x: (s2.x + s3.x) / 2, y: (s2.y + s3.y) / 2 }
+  const l1 = distance(s1, s2)
+  const l2 = distance(s2, s3)
+  const k = l1 + l2 === 0 ? 0 : l2 / (l1 + l2)
+  const cm = { x: m2.x + (m1.x - m2.x) * k, y: m2.y + (m1.y - m2.y) * k }
+  const tx = s2.x - cm.x
+  const ty = s2.y - cm.y
+  return {
+    c1: { x: m1.x + tx, y: m1.y + ty, pressure: 0, time: 0 },
+    c2: { x: m2.x + tx, y: m2.y + ty, pressure: 0, time: 0 }
+  }
+}
+
+const groupCurves = (group: PointGroup): { curves: Curve[], dots: Dot[] } => {
+  if (group.points.length === 1) {
+    const width = group.dotSize > 0 ? group.dotSize : (group.minWidth + group.maxWidth) / 2
+    return { curves: [], dots: [{ at: group.points[0], width }] }
+  }
+  const curves: Curve[] = []
+  const last: BasicPoint[] = []
+  let lastVelocity = 0
+  for (const point of group.points) {
+    last.push(point)
+    if (last.length < 3) continue
+    if (last.length === 3) last.unshift(last[0])
+    const v = group.velocityFilterWeight * velocity(last[2], last[1]) + (1 - group.velocityFilterWeight) * lastVelocity
+    const width = Math.max(group.maxWidth / (v + 1), group.minWidth)
+    lastVelocity = v
+    // signature_pad evaluates its Bezier with these two control points in this order
+    curves.push({
+      start: last[1],
+      c1: controlPoints(last[1], last[2], last[3]).c1,
+      c2: controlPoints(last[0], last[1], last[2]).c2,
+      end: last[2],
+      width
+    })
+    last.shift()
+  }
+  return { curves, dots: [] }
+}
+
+// Pen colors come from the signature pad as CSS hex or rgb() strings
+const parseCssColor = (color: string): [number, number, number] => {
+  const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, c => c + c) : hex[1]
+    return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16) / 255) as [number, number, number]
+  }
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i)
+  if (rgb) return [+rgb[1] / 255, +rgb[2] / 255, +rgb[3] / 255]
+  return [0, 0, 0]
+}
+
+const round = (n: number) => Math.round(n * 100) / 100
+
+/** Draw pad strokes into the placement area described by `params` (see placementDrawParams). */
+export function drawStrokes(target: DrawTarget, strokes: SignatureStrokes, params: DrawParams) {
+  const sx = params.width / strokes.width
+  const sy = params.height / strokes.height
+  const angle = (params.rotate * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+
+  // Pad coordinates have a top-left origin: flip y, scale into the box, then rotate about its anchor
+  const ops = [
+    pushGraphicsState(),
+    concatTransformationMatrix(
+      cos * sx, sin * sx, sin * sy, -cos * sy,
+      params.x - sin * strokes.height * sy, params.y + cos * strokes.height * sy
+    ),
+    setLineCap(LineCapStyle.Round),
+    setLineJoin(LineJoinStyle.Round)
+  ]
+  for (const group of strokes.groups) {
+    const [r, g, b] = parseCssColor(group.penColor)
+    ops.push(setStrokingRgbColor(r, g, b))
+    const { curves, dots } = groupCurves(group)
+    for (const c of curves) {
+      ops.push(
+        setLineWidth(round(c.width * SVG_STROKE_FACTOR)),
+        moveTo(round(c.start.x), round(c.start.y)),
+        appendBezierCurve(round(c.c1.x), round(c.c1.y), round(c.c2.x), round(c.c2.y), round(c.end.x), round(c.end.y)),
+        stroke()
+      )
+    }
+    // A zero-length segment with round caps is a filled dot of the line width
+    for (const d of dots) {
+      ops.push(
+        setLineWidth(round(d.width * 2)),
+        moveTo(round(d.at.x), round(d.at.y)),
+        lineTo(round(d.at.x), round(d.at.y)),
+        stroke()
+      )
+    }
+  }
+  ops.push(popGraphicsState())
+  target.push(...ops)
+}
@@ -0,0 +1,55 @@
+import { PDFDict, PDFDocument, PDFFont, PDFImage, PDFName, PDFOperator, PDFPage, PDFRef, PDFWidgetAnnotation } from 'pdf-lib'
+
+/**
+ * Where a placement is drawn: straight into the page content, or into the appearance stream of the
+ * form field it was snapped into. Operators are in page space either way; fonts and images are
+ * registered as resources of the target and referred to by the returned name.
+ */
+export type DrawTarget = {
+  font: (font: PDFFont) => PDFName
+  image: (image: PDFImage) => PDFName
+  push: (...operators: PDFOperator[]) => void
+  finish?: () => void // Called once everything is drawn
+}
+
+export const pageTarget = (page: PDFPage): DrawTarget => ({
+  font: font => page.node.newFontDictionary(font.name, font.ref),
+  image: image => page.node.newXObject('Image', image.ref),
+  push: (...operators) => page.pushOperators(...operators)
+})
+
+/**
+ * Collect the drawing into a form XObject and make it the widget's normal appearance. The XObject's
+ * BBox is the widget /Rect and its Matrix the identity, so page-space operators land on the widget.
+ */
+export function appearanceTarget(pdfDoc: PDFDocument, widget: PDFWidgetAnnotation): DrawTarget {
+  const { context } = pdfDoc
+  const operators: PDFOperator[] = []
+  const fonts = context.obj({})
+  const images = context.obj({})
+  const names = new Map<PDFRef, PDFName>()
+  const resource = (dict: PDFDict, prefix: string, ref: PDFRef) => {
+    let name = names.get(ref)
+    if (!name) {
+      name = PDFName.of(`${prefix}${names.size}`)
+      dict.set(name, ref)
+      names.set(ref, name)
+    }
+    return name
+  }
+
+  return {
+    font: font => resource(fonts, 'F', font.ref),
+    image: image => resource(images, 'Im', image.ref),
+    push: (...ops) => { operators.push(...ops) },
+    finish: () => {
+      const { x, y, width, height } = widget.getRectangle()
+      const stream = context.formXObject(operators, {
+        BBox: [Math.min(x, x + width), Math.min(y, y + height), Math.max(x, x + width), Math.max(y, y + height)],
+        Matrix: [1, 0, 0, 1, 0, 0],
+        Resources: { Font: fonts, XObject: images }
+      })
+      widget.setNormalAppearance(context.register(stream))
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { PDFFont, concatTransformationMatrix, degrees, drawText, popGraphicsState, pushGraphicsState, rgb } from 'pdf-lib'
+import { TYPED_SIGNATURE_LAYOUT } from '../fonts/signatureFonts'
+import { DrawParams } from '../pdf/geometry'
+import { DrawTarget } from './target'
+
+/** A run of a typed name in one embedded font, in visual order (see typedSignatureRuns). */
+export type FontRun = { text: string, font: PDFFont }
+
+export const hexToRgb = (hex: string) => {
+  const n = parseInt(hex.slice(1), 16)
+  return rgb(((n >> 16) & 0xff) / 255, ((n >> 8) & 0xff) / 255, (n & 0xff) / 255)
+}
+
+/**
+ * Size of the typed signature box at the layout font size: the runs' total advance width and the
+ * largest ascent + descent among their fonts, plus padding. The on-screen preview image is drawn with the same box.
+ */
+export function typedSignatureBox(runs: FontRun[]) {
+  const { size, padding } = TYPED_SIGNATURE_LAYOUT
+  const ascent = Math.max(...runs.map(r => r.font.heightAtSize(size, { descender: false })))
+  const descent = Math.max(...runs.map(r => r.font.heightAtSize(size) - r.font.heightAtSize(size, { descender: false })))
+  const width = runs.reduce((sum, r) => sum + r.font.widthOfTextAtSize(r.text, size), 0)
+  return {
+    width: width + padding * 2,
+    height: ascent + descent + padding * 2,
+    baseline: padding + descent
+  }
+}
+
+/** Draw a typed signature as real (selectable, searchable) text, stretched to the placement like the preview image. */
+export function drawTypedSignature(target: DrawTarget, runs: FontRun[], params: DrawParams) {
+  const box = typedSignatureBox(runs)
+  const sx = params.width / box.width
+  const sy = params.height / box.height
+  const angle = (params.rotate * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const { size, padding, color } = TYPED_SIGNATURE_LAYOUT
+
+  target.push(
+    pushGraphicsState(),
+    concatTransformationMatrix(cos * sx, sin * sx, -sin * sy, cos * sy, params.x, params.y)
+  )
+  // Runs are already in visual order; fontkit shapes each one (Arabic joining, RTL glyph order)
+  let x = padding
+  for (const run of runs) {
+    target.push(...drawText(run.font.encodeText(run.text), {
+      x, y: box.baseline, size, font: target.font(run.font), color: hexToRgb(color),
+      rotate: degrees(0), xSkew: degrees(0), ySkew: degrees(0)
+    }))
+    x += run.font.widthOfTextAtSize(run.text, size)
+  }
+  target.push(popGraphicsState())
+}
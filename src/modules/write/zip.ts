@@ -0,0 +1,78 @@
+/**
+ * Minimal ZIP writer for batch output. Entries are stored uncompressed: PDFs are compressed inside
+ * already, and deflating them again would gain little for the time it takes. No ZIP64, so the archive
+ * must stay under 4 GiB and 65535 entries.
+ */
+export type ZipEntry = { name: string, bytes: Uint8Array }
+
+const MAX_ZIP_BYTES = 0xffffffff
+const MAX_ZIP_ENTRIES = 0xffff
+const UTF8_NAMES = 0x0800 // General purpose flag: names are UTF-8
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time, in local time as unzip tools expect; seconds are stored halved
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+})
+
+/** Pack entries into one ZIP archive. Throws when they are too many or too large for a ZIP without ZIP64. */
+export function createZip(entries: ZipEntry[], modified = new Date()): Uint8Array {
+  if (entries.length > MAX_ZIP_ENTRIES) throw new Error('Too many files for one ZIP archive')
+  const encoder = new TextEncoder()
+  const { time, date } = dosDateTime(modified)
+  const files = entries.map(entry => ({ name: encoder.encode(entry.name), bytes: entry.bytes, crc: crc32(entry.bytes) }))
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.bytes.length, 0)
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0)
+  if (localSize + centralSize + 22 > MAX_ZIP_BYTES) throw new Error('The files are too large for one ZIP archive')
+
+  const out = new Uint8Array(localSize + centralSize + 22)
+  const view = new DataView(out.buffer)
+  let pos = 0
+  const u16 = (value: number) => { view.setUint16(pos, value, true); pos += 2 }
+  const u32 = (value: number) => { view.setUint32(pos, value, true); pos += 4 }
+  const bytes = (value: Uint8Array) => { out.set(value, pos); pos += value.length }
+
+  const offsets: number[] = []
+  for (const f of files) {
+    offsets.push(pos)
+    u32(0x04034b50) // Local file header
+    u16(20); u16(UTF8_NAMES); u16(0) // Version needed, flags, method: stored
+    u16(time); u16(date)
+    u32(f.crc); u32(f.bytes.length); u32(f.bytes.length)
+    u16(f.name.length); u16(0)
+    bytes(f.name)
+    bytes(f.bytes)
+  }
+  files.forEach((f, i) => {
+    u32(0x02014b50) // Central directory header
+    u16(20); u16(20); u16(UTF8_NAMES); u16(0) // Version made by, version needed, flags, method
+    u16(time); u16(date)
+    u32(f.crc); u32(f.bytes.length); u32(f.bytes.length)
+    u16(f.name.length); u16(0); u16(0) // Name, extra field and comment lengths
+    u16(0); u16(0); u32(0) // Disk number, internal and external attributes
+    u32(offsets[i])
+    bytes(f.name)
+  })
+  u32(0x06054b50) // End of central directory
+  u16(0); u16(0)
+  u16(files.length); u16(files.length)
+  u32(centralSize); u32(localSize)
+  u16(0)
+  return out
+}
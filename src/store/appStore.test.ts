@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import type { Placement } from './appStore'
+import { decryptPdf, encryptDocument } from '../modules/pdf/encryption'
+
+// The store reads saved settings when it loads
+vi.hoisted(() => {
+  const items = new Map<string, string>()
+  globalThis.localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value) },
+    removeItem: (key: string) => { items.delete(key) },
+    clear: () => items.clear(),
+    key: (index: number) => [...items.keys()][index] ?? null,
+    get length() { return items.size }
+  }
+})
+
+vi.mock('../modules/write/export', async importOriginal => ({
+  ...await importOriginal<typeof import('../modules/write/export')>(),
+  exportSignedPdf: vi.fn(),
+  exportZip: vi.fn()
+}))
+vi.mock('../modules/batch/batch', async importOriginal => ({
+  ...await importOriginal<typeof import('../modules/batch/batch')>(),
+  signBatch: vi.fn(async () => ({ entries: [], results: [] }))
+}))
+
+const { useAppStore } = await import('./appStore')
+const { buildSignedPdf, exportSignedPdf } = await import('../modules/write/export')
+const { signBatch } = await import('../modules/batch/batch')
+
+const mark: Placement = {
+  id: 'mark', pageIndex: 0, rect: { x: 10, y: 10, w: 5, h: 5 }, placedAt: '2026-01-01T00:00:00.000Z', kind: 'mark', mark: 'check', color: '#000000'
+}
+const store = () => useAppStore.getState()
+const dragTo = (x: number) => store().updatePlacement('mark', { ...mark.rect, x })
+
+beforeEach(() => {
+  useAppStore.setState({ placements: [mark], undoStack: [], redoStack: [], gestureStart: null })
+})
+
+describe('placement gestures', () => {
+  it('record a drag as one undo step', () => {
+    store().beginPlacementGesture()
+    for (const x of [20, 30, 40]) dragTo(x)
+    store().endPlacementGesture()
+    expect(store().undoStack).toHaveLength(1)
+    store().undo()
+    expect(store().placements).toEqual([mark])
+  })
+
+  it('record a pinch that begins during a drag in the same step', () => {
+    store().beginPlacementGesture()
+    dragTo(20)
+    store().beginPlacementGesture()
+    dragTo(30)
+    store().endPlacementGesture()
+    expect(store().undoStack).toHaveLength(1)
+    expect(store().undoStack[0]).toEqual([mark])
+  })
+
+  it('record no step for a gesture that changed nothing', () => {
+    store().beginPlacementGesture()
+    store().endPlacementGesture()
+    expect(store().undoStack).toHaveLength(0)
+  })
+
+  it('hold undo and redo until an interrupted gesture ends', () => {
+    store().beginPlacementGesture()
+    dragTo(20)
+    store().undo()
+    expect(store().placements[0].rect.x).toBe(20)
+    // Cancelled: the gesture is closed without a pointer coming up
+    store().endPlacementGesture()
+    store().undo()
+    expect(store().placements).toEqual([mark])
+    store().redo()
+    expect(store().placements[0].rect.x).toBe(20)
+  })
+
+  it('record edits outside a gesture one by one', () => {
+    dragTo(20)
+    dragTo(30)
+    expect(store().undoStack).toHaveLength(2)
+  })
+})
+
+const alert = vi.fn()
+vi.stubGlobal('alert', alert)
+
+describe('exporting a protected file with its original protection', () => {
+  beforeEach(() => {
+    alert.mockClear()
+    vi.mocked(exportSignedPdf).mockClear()
+    useAppStore.setState({
+      pdfFile: new File(['%PDF'], 'protected.pdf'), sessionRetention: 'off', isEncrypted: true, outputProtection: 'original',
+      pdfPassword: null, ownerPasswordUnknown: false, outputPasswords: { userPassword: '', ownerPassword: '' }
+    })
+  })
+
+  const encryption = () => vi.mocked(exportSignedPdf).mock.calls[0]?.[2]?.encryption
+  // Export for real, for the bytes the user would download
+  const exported = async () => {
+    let bytes: Uint8Array = new Uint8Array()
+    vi.mocked(exportSignedPdf).mockImplementationOnce(async (file, placements, options) => {
+      bytes = (await buildSignedPdf(file, placements, options)).bytes
+    })
+    await store().exportAll()
+    return bytes
+  }
+  const protectedFile = async (userPassword: string, ownerPassword: string) => {
+    const pdfDoc = await PDFDocument.create()
+    pdfDoc.addPage([600, 800])
+    await encryptDocument(pdfDoc, { userPassword, ownerPassword, permissions: -1044 })
+    return new File([(await pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false })).buffer as ArrayBuffer], 'protected.pdf')
+  }
+
+  it('keeps the user and owner passwords apart', async () => {
+    useAppStore.setState({ pdfFile: await protectedFile('secret', 'owner'), pdfPassword: 'secret' })
+    const bytes = await exported()
+    // The user password still opens it, without the owner's access
+    expect(await decryptPdf(bytes, 'secret')).toMatchObject({ ownerAccess: false, permissions: -1044 })
+    expect((await decryptPdf(bytes, 'owner')).ownerAccess).toBe(true)
+  })
+
+  it('keeps the owner password of a file that opened without a password', async () => {
+    useAppStore.setState({ pdfFile: await protectedFile('', 'owner') })
+    const bytes = await exported()
+    expect(alert).not.toHaveBeenCalled()
+    expect((await decryptPdf(bytes, '')).ownerAccess).toBe(false)
+    expect((await decryptPdf(bytes, 'owner')).ownerAccess).toBe(true)
+  })
+
+  it("asks for an owner password when the file's can't be recovered", async () => {
+    useAppStore.setState({ ownerPasswordUnknown: true })
+    await store().exportAll()
+    expect(alert).toHaveBeenCalledWith(expect.stringContaining('owner password'))
+    expect(exportSignedPdf).not.toHaveBeenCalled()
+  })
+
+  it('keeps the restrictions under the chosen owner password then', async () => {
+    useAppStore.setState({ ownerPasswordUnknown: true, outputPasswords: { userPassword: '', ownerPassword: 'owner' } })
+    await store().exportAll()
+    expect(encryption()).toEqual({ original: true, ownerPassword: 'owner' })
+  })
+})
+
+describe('signing a batch while a protected file is open', () => {
+  const sign = () => store().signBatch([new File(['%PDF'], 'contract.pdf')], { kind: 'anchors', anchors: ['Sign here'], offset: { from: 'end', x: 0, y: 0 } })
+
+  beforeEach(() => {
+    alert.mockClear()
+    vi.mocked(signBatch).mockClear()
+    useAppStore.setState({
+      isEncrypted: true, outputProtection: 'original', ownerPasswordUnknown: true, outputPasswords: { userPassword: '', ownerPassword: '' },
+      placing: 'stamp', currentStamp: { kind: 'mark', mark: 'check', color: '#000000' }, batchProgress: null
+    })
+  })
+
+  it("doesn't ask for the open file's owner password, whose protection the batch leaves out", async () => {
+    await sign()
+    expect(alert).not.toHaveBeenCalled()
+    expect(vi.mocked(signBatch).mock.calls[0][2].encryption).toBeNull()
+  })
+
+  it('asks for new passwords when they are chosen but empty', async () => {
+    useAppStore.setState({ outputProtection: 'new' })
+    await sign()
+    expect(alert).toHaveBeenCalledWith('Please enter a password to protect the exported PDF')
+    expect(signBatch).not.toHaveBeenCalled()
+  })
+})
@@ -1,59 +1,811 @@
 import { create } from 'zustand'
-import { exportSignedPdf } from '../modules/write/export'
+import type { PointGroup } from 'signature_pad'
+import { ExportOptions, exportEnvelopePackage, exportSignedPdf, exportTemplates, exportZip, SaveMode } from '../modules/write/export'
+import { sha256Hex } from '../modules/write/audit'
+import { SigningIdentity } from '../modules/sign/pkcs12'
+import { verifyPdfSignatures, VerifiedSignature } from '../modules/sign/verify'
+import { PageGeometry } from '../modules/pdf/geometry'
+import { PasswordRequest, getPageTexts } from '../modules/pdf/render'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import type { PageTextItem, TextMatch } from '../modules/pdf/textSearch'
+import { OutputEncryption, isEncryptedPdf, readProtection } from '../modules/pdf/encryption'
+import type { SignatureFontId, TextFontId } from '../modules/fonts/signatureFonts'
+import { FormField, FormValue, readFormFields } from '../modules/pdf/forms'
+import {
+  SavedSession, SessionRetention, SessionState, discardSavedSession, getSessionRetention, loadSavedSession,
+  saveSessionFile, saveSessionState, setSessionRetention
+} from '../modules/storage/session'
+import { LibraryItem, LibrarySlot, deleteLibraryItem, libraryItemContent, loadLibrary, putLibraryItems } from '../modules/storage/library'
+import {
+  MAX_TEMPLATES, MAX_TEMPLATE_NAME_LENGTH, PlacementTemplate, TemplatePlacement, deleteTemplate, loadTemplates, parseTemplateFile,
+  putTemplates, templateMismatch, templatePlacementOf
+} from '../modules/storage/templates'
+import {
+  Envelope, EnvelopeFieldKind, MAX_SIGNERS, MAX_SIGNER_NAME_LENGTH, Signer, createEnvelope, currentSigner, nextSignerColor,
+  openEnvelopeFields, parseEnvelope
+} from '../modules/envelope/envelope'
+import { BatchResult, BatchRule, MAX_BATCH_FILES, SUMMARY_FILE, signBatch, summaryCsv } from '../modules/batch/batch'
+import type { AnchorOffset } from '../modules/pdf/anchors'
+import {
+  RuleViolation, SigningRuleId, SigningRules, checkSigningRules, getSigningRules, setSigningRules
+} from '../modules/rules/signingRules'
+import {
+  PageEdit, PageSlot, appendPages, insertBlankPage, movePageTo, pagesOf, removePageAt, turnPage, turnedRect
+} from '../modules/pdf/pages'
+import { arrangedPdfFile, mergeablePageCount } from '../modules/write/pages'
 
 // Utility function to validate data URLs
 const isValidDataURL = (dataUrl: string): boolean => {
   return /^data:image\/(png|jpeg|jpg|webp);base64,[A-Za-z0-9+/=]+$/.test(dataUrl)
 }
 
+// Prevent excessive number of signatures per document
+const MAX_PLACEMENTS = 50
+// Undo steps kept
+const MAX_HISTORY = 100
+// PDFs merged into one document
+const MAX_MERGED_FILES = 20
+// Saved items per library slot
+const MAX_LIBRARY_ITEMS = 20
+const MAX_LIBRARY_NAME_LENGTH = 50
+
 export type Size = { width:number, height:number }
 export type Rect = { x:number, y:number, w:number, h:number }
 export type PercentRect = { x:number, y:number, w:number, h:number } // All values as percentages (0-100)
-export type Placement = { id:string, pageIndex:number, rect:PercentRect, imageDataUrl:string }
+export type SignatureMethod = 'draw' | 'type' | 'upload'
+// Pen strokes as recorded by signature_pad, in CSS pixels of a width x height drawing pad
+export type SignatureStrokes = { width:number, height:number, groups:PointGroup[] }
+export type TypedSignature = { text:string, font:SignatureFontId }
+// Vector source of a drawn or typed signature, exported instead of the preview image
+export type SignatureVector = { strokes?:SignatureStrokes, typed?:TypedSignature }
+export type TextStyle = { font:TextFontId, size:number, color:string } // Size in points, color as #rrggbb
+export type DateFormat = 'long' | 'medium' | 'short' | 'iso'
+export type MarkType = 'check' | 'cross'
+
+// What a placement shows. imageDataUrl is the on-screen preview of signatures and initials and the
+// export fallback for uploaded images; the other kinds are rendered from their fields
+export type SignatureContent = { kind:'signature', imageDataUrl:string, method:SignatureMethod } & SignatureVector
+export type InitialsContent = { kind:'initials', imageDataUrl:string, method:SignatureMethod } & SignatureVector
+export type TextContent = { kind:'text', text:string, style:TextStyle }
+// Filled in with the signing date on export
+export type DateContent = { kind:'date', format:DateFormat, locale:string, style:TextStyle }
+export type MarkContent = { kind:'mark', mark:MarkType, color:string }
+export type StampContent = InitialsContent | TextContent | DateContent | MarkContent
+export type PlacementContent = SignatureContent | StampContent
+export type PlacementKind = PlacementContent['kind']
+// `field` names the form field (empty /Sig or "Sign here" widget) a signature was snapped into, `envelopeField`
+// the envelope field it fills; `signerId` is the envelope signer who placed it
+export type Placement = {
+  id:string, pageIndex:number, rect:PercentRect, placedAt:string, field?:string, envelopeField?:string, signerId?:string
+} & PlacementContent
+// 'original' re-encrypts with the password that opened the file; 'new' uses outputPasswords
+export type OutputProtection = 'none' | 'original' | 'new'
+// How batch signing places content in each file: a saved template, or anchor text as in the anchors panel
+export type BatchSource = { kind: 'template', templateId: string } | { kind: 'anchors', anchors: string[], offset: AnchorOffset }
 
 type S = {
   pdfFile: File | null
-  pages: HTMLCanvasElement[]
+  pdfDocument: PDFDocumentProxy | null // Open in pdf.js; pages are rendered from it as they scroll into view
   pageSizes: Size[]
+  pageGeometries: PageGeometry[]
+  currentPage: number // Page most in view in the viewer
+  pageRequest: { pageIndex: number } | null // Page the viewer should scroll to; a new object per request
+  searchHits: TextMatch[] // Matches of the search box query, highlighted in the viewer
+  currentHit: number
   placements: Placement[]
+  // Placements before each edit (newest last) and after each undone one; a drag or resize is one edit
+  undoStack: Placement[][]
+  redoStack: Placement[][]
+  gestureStart: Placement[] | null // Placements when the drag or resize in progress began
   currentSignature: string | null
+  currentSignatureMethod: SignatureMethod
+  currentSignatureVector: SignatureVector | null
+  currentStamp: StampContent | null
+  placing: 'signature' | 'stamp' | 'field' // What a click on the page places; 'field' adds envelope fields
+  library: LibraryItem[] // Saved signatures and initials, oldest first
+  librarySelection: Record<LibrarySlot, string | null> // Items the current signature and initials stamp came from
+  templates: PlacementTemplate[] // Saved placement layouts, oldest first
+  signingIdentity: SigningIdentity | null
+  saveMode: SaveMode
+  auditTrail: boolean
+  existingSignatures: VerifiedSignature[]
+  isEncrypted: boolean
+  pdfPassword: string | null
+  passwordRequest: PasswordRequest | null
+  ownerPasswordUnknown: boolean // Keeping the original protection needs a new owner password: see OriginalProtection
+  outputProtection: OutputProtection
+  outputPasswords: OutputEncryption
+  formFields: FormField[]
+  formValues: Record<string, FormValue> // Only fields the user edited
+  flattenForm: boolean
+  signingRules: SigningRules // Checked before export
+  ruleViolations: RuleViolation[] // As of the last check
+  rulesOverridden: boolean // The user chose to export this document even though rules fail
   hasDoc: boolean
   lastPlacementTime: number
+  savedSession: SavedSession | null // Left by an earlier visit, offered for resuming
+  envelope: Envelope | null // Signers, their fields and the signing order, when several people sign
+  envelopeSignerId: string | null // Signer new fields go to while preparing; whose turn it is in a received envelope
+  envelopeReceived: boolean // Opened from an envelope file: only the current signer's fields show, and the envelope is fixed
+  envelopeFieldKind: EnvelopeFieldKind // Added by a click while placing is 'field'
+  sessionRetention: SessionRetention
+  batchProgress: { done: number, total: number } | null // While a batch is being signed
+  batchResults: BatchResult[] | null // Of the last batch
+  pageLayout: PageSlot[] | null // The document's pages once rotated, deleted, moved, inserted or merged; null while unchanged
+  mergedFiles: File[] // PDFs merged in, numbered from 1 in the layout
+  arrangedFile: File | null // pdfFile with its pages arranged, shown in the viewer instead of it
+  arrangingPages: boolean // While a page operation builds the arranged file
 
   loadFile: (f: File) => void
   clearAll: () => void
-  setPages: (canvases: HTMLCanvasElement[], sizes: Size[]) => void
+  setDocument: (doc: PDFDocumentProxy, sizes: Size[], geometries: PageGeometry[]) => void
   setPageSizes: (sizes: Size[]) => void
-  setCurrentSignature: (dataUrl: string | null) => void
-  addPlacement: (pageIndex:number, rect:PercentRect, imageDataUrl:string) => void
+  setCurrentPage: (pageIndex: number) => void
+  goToPage: (pageIndex: number) => void
+  setSearchHits: (hits: TextMatch[]) => void
+  setCurrentHit: (index: number) => void
+  setCurrentSignature: (dataUrl: string | null, method?: SignatureMethod, vector?: SignatureVector | null) => void
+  setCurrentStamp: (stamp: StampContent | null) => void
+  loadSignatureLibrary: () => void
+  saveToLibrary: (name: string, slot: LibrarySlot) => void
+  selectLibraryItem: (id: string) => void
+  renameLibraryItem: (id: string, name: string) => void
+  setLibraryDefault: (id: string, isDefault: boolean) => void
+  removeLibraryItem: (id: string) => void
+  loadPlacementTemplates: () => void
+  saveTemplate: (name: string) => void
+  applyTemplate: (id: string) => void
+  removeTemplate: (id: string) => void
+  exportTemplates: (id?: string) => void
+  importTemplates: (file: File) => void
+  signBatch: (files: File[], source: BatchSource) => void
+  rotatePage: (pageIndex: number) => void
+  deletePage: (pageIndex: number) => void
+  movePage: (from: number, to: number) => void
+  insertBlankPage: (after: number) => void
+  mergePdf: (file: File) => void
+  setSigningIdentity: (identity: SigningIdentity | null) => void
+  setSaveMode: (mode: SaveMode) => void
+  setAuditTrail: (enabled: boolean) => void
+  requestPassword: (request: PasswordRequest) => void
+  submitPassword: (password: string) => void
+  setOutputProtection: (protection: OutputProtection) => void
+  setOutputPasswords: (passwords: OutputEncryption) => void
+  loadFormFields: () => void
+  setFormValue: (name: string, value: FormValue) => void
+  setFlattenForm: (flatten: boolean) => void
+  setSigningRule: (id: SigningRuleId, enabled: boolean) => void
+  checkRules: () => Promise<RuleViolation[]>
+  setRulesOverridden: (overridden: boolean) => void
+  addPlacement: (pageIndex:number, rect:PercentRect, content:PlacementContent, field?:string, envelopeField?:string) => void
+  addPlacements: (items:{ pageIndex:number, rect:PercentRect }[], content:PlacementContent) => void
   updatePlacement: (id:string, rect:PercentRect) => void
+  editPlacement: (id:string, content:PlacementContent) => void
   removePlacement: (id:string) => void
   clearAllPlacements: () => void
+  beginPlacementGesture: () => void
+  endPlacementGesture: () => void
+  undo: () => void
+  redo: () => void
   exportAll: () => void
+  checkSavedSession: () => void
+  resumeSession: () => void
+  discardSession: () => void
+  setSessionRetention: (retention: SessionRetention) => void
+  startEnvelope: () => void
+  addSigner: (name: string, email: string) => void
+  updateSigner: (id: string, changes: Partial<Omit<Signer, 'id'>>) => void
+  moveSigner: (id: string, offset: number) => void
+  removeSigner: (id: string) => void
+  setEnvelopeSigner: (id: string) => void
+  setPlacingFields: (kind: EnvelopeFieldKind | null) => void
+  addEnvelopeField: (pageIndex: number, rect: PercentRect) => void
+  removeEnvelopeField: (id: string) => void
+  discardEnvelope: () => void
+  openEnvelope: (file: File) => void
+  exportEnvelope: () => void
+}
+
+// Why a placement would be rejected, if it would
+const placementError = (pageIndex: number, rect: PercentRect, content: PlacementContent): string | null => {
+  if ('imageDataUrl' in content && !isValidDataURL(content.imageDataUrl)) return 'Invalid image data URL'
+  if (pageIndex < 0 || !Number.isInteger(pageIndex)) return 'Invalid page index'
+  if (rect.w <= 0 || rect.h <= 0 || rect.x < 0 || rect.y < 0 || rect.x > 100 || rect.y > 100 || rect.w > 100 || rect.h > 100) {
+    return 'Invalid percentage rectangle dimensions (should be 0-100)'
+  }
+  // Additional security: prevent extremely small signatures that could be used for tracking
+  if (rect.w < 1 || rect.h < 0.5) return 'Signature too small - minimum size is 1% x 0.5%'
+  return null
+}
+
+// Control characters would only garble the lists; names show as plain text
+const cleanName = (name: string, maxLength: number) =>
+  Array.from(name.replace(/\p{Cc}/gu, '').trim()).slice(0, maxLength).join('')
+
+const libraryError = (error: unknown) => {
+  console.error('Signature library update failed:', error)
+  alert('Failed to update the signature library. Please try again.')
+}
+
+// Store new or changed library items, then show them; a failed write leaves the library as it was
+const saveLibraryItems = (items: LibraryItem[]) => putLibraryItems(items).then(() => useAppStore.setState(s => {
+  const ids = new Set(items.map(item => item.id))
+  return { library: [...s.library.filter(item => !ids.has(item.id)), ...items].sort((a, b) => a.createdAt.localeCompare(b.createdAt)) }
+})).catch(libraryError)
+
+const templateError = (error: unknown) => {
+  console.error('Template update failed:', error)
+  alert('Failed to update the templates. Please try again.')
+}
+
+// Store new or changed templates, then show them; a failed write leaves the templates as they were
+const saveTemplates = (templates: PlacementTemplate[]) => putTemplates(templates).then(() => useAppStore.setState(s => {
+  const ids = new Set(templates.map(template => template.id))
+  return { templates: [...s.templates.filter(template => !ids.has(template.id)), ...templates].sort((a, b) => a.createdAt.localeCompare(b.createdAt)) }
+})).catch(templateError)
+
+// State for an edit that replaces the placements, recorded for undo unless a gesture records it as a whole
+const editedPlacements = (s: S, placements: Placement[]): Partial<S> => s.gestureStart
+  ? { placements }
+  : { placements, undoStack: [...s.undoStack, s.placements].slice(-MAX_HISTORY), redoStack: [] }
+
+// State for several placements added as one edit (anchor search, templates); beyond the limit, the rest are left out
+const batchPlacements = (s: S, items: { pageIndex:number, rect:PercentRect, content:PlacementContent }[]): Partial<S> => {
+  const now = new Date().toISOString()
+  const valid = items.filter(({ pageIndex, rect, content }) => {
+    const error = placementError(pageIndex, rect, content)
+    if (error) console.error(error)
+    return !error
+  })
+  const room = Math.max(0, MAX_PLACEMENTS - s.placements.length)
+  if (valid.length > room) {
+    console.error(`Maximum signature limit reached (${MAX_PLACEMENTS})`)
+    alert(`Maximum signature limit reached. Only ${room} of ${valid.length} placements were added.`)
+  }
+  const signerId = s.envelopeReceived ? s.envelopeSignerId ?? undefined : undefined
+  const added = valid.slice(0, room).map(({ pageIndex, rect, content }): Placement => ({
+    id: crypto.randomUUID(), pageIndex, rect, placedAt: now, signerId, ...content
+  }))
+  return added.length ? editedPlacements(s, [...s.placements, ...added]) : {}
+}
+
+// What each of the template's placements shows: the current signature and initials (from the library,
+// unless others were made since) and the template's own stamps; null (after telling the user) when one is missing
+const templateContent = (s: S, template: PlacementTemplate): ((p: TemplatePlacement) => PlacementContent) | null => {
+  const signature: PlacementContent | null = s.currentSignature
+    ? { kind: 'signature', imageDataUrl: s.currentSignature, method: s.currentSignatureMethod, ...s.currentSignatureVector }
+    : null
+  const libraryInitials = s.library.find(item => item.slot === 'initials' && item.isDefault) ?? s.library.find(item => item.slot === 'initials')
+  const initials = s.currentStamp?.kind === 'initials' ? s.currentStamp : libraryInitials ? libraryItemContent(libraryInitials) : null
+  const needs = (kind: string) => template.placements.some(p => p.kind === kind)
+  if (needs('signature') && !signature) {
+    alert('This template places your signature. Please create or select one first.')
+    return null
+  }
+  if (needs('initials') && !initials) {
+    alert('This template places your initials. Please add initials under Stamps or to your library first.')
+    return null
+  }
+  return p => {
+    if (p.kind === 'signature') return signature!
+    if (p.kind === 'initials') return initials!
+    const { pageIndex, rect, ...stamp } = p
+    return stamp
+  }
+}
+
+// Output protection from the sidebar; undefined (after telling the user) when it is incomplete
+const outputEncryption = (s: S): ExportOptions['encryption'] | undefined => {
+  if (s.outputProtection === 'none') return null
+  if (s.outputProtection === 'new') {
+    if (s.outputPasswords.userPassword || s.outputPasswords.ownerPassword) return s.outputPasswords
+    alert('Please enter a password to protect the exported PDF')
+    return undefined
+  }
+  // An empty owner password would let anyone lift the restrictions, so they are kept under one the user chooses
+  if (s.ownerPasswordUnknown && !s.outputPasswords.ownerPassword) {
+    alert("This PDF's owner password can't be recovered with the password it opened with. Please enter an owner password to keep its restrictions.")
+    return undefined
+  }
+  return { original: true, ownerPassword: s.outputPasswords.ownerPassword }
+}
+
+// Export settings from the sidebar, protected with `encryption`
+const exportOptions = (s: S, encryption: ExportOptions['encryption']): ExportOptions => ({
+  signingIdentity: s.signingIdentity, saveMode: s.saveMode, auditTrail: s.auditTrail, password: s.pdfPassword, encryption,
+  formValues: s.formValues, flattenForm: s.flattenForm, pages: s.pageLayout ? { layout: s.pageLayout, merged: s.mergedFiles } : null
+})
+
+// Whether keeping the protection of `f` needs a new owner password, once it opens with `password`
+const checkOwnerPassword = (f: File, password: string) => {
+  f.arrayBuffer().then(buffer => readProtection(new Uint8Array(buffer), password)).then(protection => {
+    const { pdfFile, pdfPassword } = useAppStore.getState()
+    if (pdfFile !== f || (pdfPassword ?? '') !== password) return
+    useAppStore.setState({ ownerPasswordUnknown: protection?.kind === 'passwords' && protection.ownerPassword === null })
+  }).catch(() => {
+    // Not the password yet: the viewer asks for it
+  })
+}
+
+// Whether the document meets the signing rules, or the user chose to export it anyway; otherwise tells the user and shows the first issue
+const rulesMet = async (): Promise<boolean> => {
+  const violations = await useAppStore.getState().checkRules()
+  if (violations.length === 0 || useAppStore.getState().rulesOverridden) return true
+  alert(`The document doesn't meet the signing rules yet (${violations.length} issue${violations.length !== 1 ? 's' : ''}). Fix them from the signing rules checklist, or choose to download anyway.`)
+  useAppStore.getState().goToPage(violations[0].pageIndex)
+  return false
+}
+
+// Whether the pages can be changed now; tells the user why not, and confirms breaking existing signatures
+const pageEditAllowed = (s: S) => {
+  // Until the arranged file of a resumed session is shown, the viewer's pages aren't the layout's
+  if (!s.pdfFile || !s.pdfDocument || s.arrangingPages || (s.pageLayout && !s.arrangedFile)) return false
+  if (s.envelopeReceived) {
+    alert("The pages of a received envelope can't be changed: its fields belong to the pages as they were sent.")
+    return false
+  }
+  const count = s.existingSignatures.length
+  return !!s.pageLayout || count === 0 ||
+    confirm(`Changing the pages rewrites the file, which breaks its ${count} existing digital signature${count !== 1 ? 's' : ''}. Continue?`)
+}
+
+const currentLayout = (s: S) => s.pageLayout ?? pagesOf(0, s.pageSizes.length)
+
+// Apply a page operation: build the arranged file first, then move placements, envelope fields and undo
+// steps along with their pages (dropping those on deleted pages). On a page turned a quarter, they turn with it.
+const editPages = async (s: S, edit: PageEdit, mergedFiles = s.mergedFiles, turned?: number) => {
+  const { pdfFile, pdfPassword } = s
+  if (!pdfFile) return
+  useAppStore.setState({ arrangingPages: true })
+  try {
+    const arrangedFile = await arrangedPdfFile(pdfFile, pdfPassword, edit.layout, mergedFiles)
+    if (useAppStore.getState().pdfFile !== pdfFile) return
+    const size = turned === undefined ? undefined : s.pageSizes[turned]
+    const moved = <T extends { pageIndex: number, rect: PercentRect }>(item: T): T[] => {
+      const pageIndex = edit.moved[item.pageIndex]
+      if (pageIndex == null) return []
+      return [size && item.pageIndex === turned ? { ...item, pageIndex, rect: turnedRect(item.rect, size) } : { ...item, pageIndex }]
+    }
+    // A turned signature no longer fits its form field's widget
+    const movedPlacements = (placements: Placement[]) =>
+      placements.flatMap(p => moved(p).map(q => q.field && p.pageIndex === turned ? { ...q, field: undefined } : q))
+    useAppStore.setState(latest => ({
+      pageLayout: edit.layout, mergedFiles, arrangedFile,
+      placements: movedPlacements(latest.placements),
+      undoStack: latest.undoStack.map(movedPlacements),
+      redoStack: latest.redoStack.map(movedPlacements),
+      envelope: latest.envelope && { ...latest.envelope, fields: latest.envelope.fields.flatMap(moved) }
+    }))
+    useAppStore.getState().loadFormFields()
+  } catch (error) {
+    console.error('Page operation failed:', error)
+    alert('Failed to change the pages. The file may be corrupted or incompatible.')
+  } finally {
+    useAppStore.setState({ arrangingPages: false })
+  }
+}
+
+// Show the arranged file of a resumed session; a protected file waits until its password is in
+const showArrangedPages = () => {
+  const { pdfFile, pdfPassword, pageLayout, mergedFiles } = useAppStore.getState()
+  if (!pdfFile || !pageLayout) return
+  arrangedPdfFile(pdfFile, pdfPassword, pageLayout, mergedFiles).then(arrangedFile => {
+    const s = useAppStore.getState()
+    if (s.pdfFile !== pdfFile || s.pageLayout !== pageLayout) return
+    useAppStore.setState({ arrangedFile })
+    s.loadFormFields()
+  }).catch(error => console.warn('Arranged pages unavailable:', error))
+}
+
+// The envelope is fixed once received; these edits only apply while preparing it
+const preparedEnvelope = (s: S) => s.envelope && !s.envelopeReceived ? s.envelope : null
+
+/** What a click on the page places right now: the current signature or stamp, if there is one. */
+export function currentPlacementContent(s: S): PlacementContent | null {
+  if (s.placing === 'field') return null
+  if (s.placing === 'stamp') return s.currentStamp
+  if (!s.currentSignature) return null
+  return { kind: 'signature', imageDataUrl: s.currentSignature, method: s.currentSignatureMethod, ...s.currentSignatureVector }
 }
 
 export const useAppStore = create<S>((set, get)=> ({
   pdfFile: null,
-  pages: [],
+  pdfDocument: null,
   pageSizes: [],
+  pageGeometries: [],
+  currentPage: 0,
+  pageRequest: null,
+  searchHits: [],
+  currentHit: 0,
   placements: [],
+  undoStack: [],
+  redoStack: [],
+  gestureStart: null,
   currentSignature: null,
+  currentSignatureMethod: 'draw',
+  currentSignatureVector: null,
+  currentStamp: null,
+  placing: 'signature',
+  library: [],
+  librarySelection: { signature: null, initials: null },
+  templates: [],
+  signingIdentity: null,
+  saveMode: 'rewrite',
+  auditTrail: false,
+  existingSignatures: [],
+  isEncrypted: false,
+  pdfPassword: null,
+  passwordRequest: null,
+  ownerPasswordUnknown: false,
+  outputProtection: 'none',
+  outputPasswords: { userPassword: '', ownerPassword: '' },
+  formFields: [],
+  formValues: {},
+  flattenForm: false,
+  signingRules: getSigningRules(),
+  ruleViolations: [],
+  rulesOverridden: false,
   hasDoc: false,
   lastPlacementTime: 0,
+  savedSession: null,
+  sessionRetention: getSessionRetention(),
+  envelope: null,
+  envelopeSignerId: null,
+  envelopeReceived: false,
+  envelopeFieldKind: 'signature',
+  batchProgress: null,
+  batchResults: null,
+  pageLayout: null,
+  mergedFiles: [],
+  arrangedFile: null,
+  arrangingPages: false,
 
-  loadFile: (f) => set({ pdfFile: f, hasDoc: true, pages: [], pageSizes: [], placements: [] }),
-  clearAll: () => set({ pdfFile: null, hasDoc: false, pages: [], pageSizes: [], placements: [], currentSignature: null }),
-  setPages: (canvases, sizes) => set({ pages: canvases, pageSizes: sizes }),
+  loadFile: (f) => {
+    set({
+      pdfFile: f, hasDoc: true, pdfDocument: null, pageSizes: [], pageGeometries: [], currentPage: 0, pageRequest: null, searchHits: [], currentHit: 0, placements: [], undoStack: [], redoStack: [], gestureStart: null, saveMode: 'rewrite', existingSignatures: [],
+      isEncrypted: false, pdfPassword: null, passwordRequest: null, ownerPasswordUnknown: false, outputProtection: 'none', outputPasswords: { userPassword: '', ownerPassword: '' },
+      formFields: [], formValues: {}, flattenForm: false, savedSession: null, envelope: null, envelopeSignerId: null, envelopeReceived: false,
+      ruleViolations: [], rulesOverridden: false, placing: get().placing === 'field' ? 'signature' : get().placing,
+      pageLayout: null, mergedFiles: [], arrangedFile: null, arrangingPages: false
+    })
+    get().loadFormFields()
+    // Protected files stay protected by default; they can only be rewritten, never appended to
+    f.arrayBuffer().then(buffer => isEncryptedPdf(new Uint8Array(buffer))).then(encrypted => {
+      if (get().pdfFile !== f || !encrypted) return
+      set({ isEncrypted: true, outputProtection: 'original' })
+      // Files that only restrict what can be done with them open without a password; the others once it is in
+      checkOwnerPassword(f, '')
+    }).catch(error => console.error('Encryption check failed:', error))
+    // Validate any existing signatures and default to an append-only save when there are some
+    verifyPdfSignatures(f).then(signatures => {
+      if (get().pdfFile !== f) return
+      const saveMode: SaveMode = signatures.length > 0 ? 'incremental' : 'rewrite'
+      // Once a password is in, submitPassword verifies again with it, and only that reads protected field names
+      set(get().pdfPassword === null ? { existingSignatures: signatures, saveMode } : { saveMode })
+    })
+  },
+  clearAll: () => {
+    discardSavedSession()
+    set({
+      pdfFile: null, hasDoc: false, pdfDocument: null, pageSizes: [], pageGeometries: [], currentPage: 0, pageRequest: null, searchHits: [], currentHit: 0, placements: [], undoStack: [], redoStack: [], gestureStart: null, currentSignature: null, currentSignatureVector: null, currentStamp: null, placing: 'signature', librarySelection: { signature: null, initials: null }, signingIdentity: null, saveMode: 'rewrite', existingSignatures: [],
+      isEncrypted: false, pdfPassword: null, passwordRequest: null, ownerPasswordUnknown: false, outputProtection: 'none', outputPasswords: { userPassword: '', ownerPassword: '' },
+      formFields: [], formValues: {}, flattenForm: false, savedSession: null, envelope: null, envelopeSignerId: null, envelopeReceived: false,
+      ruleViolations: [], rulesOverridden: false, pageLayout: null, mergedFiles: [], arrangedFile: null, arrangingPages: false
+    })
+  },
+  setDocument: (doc, sizes, geometries) => set({ pdfDocument: doc, pageSizes: sizes, pageGeometries: geometries }),
   setPageSizes: (sizes) => set({ pageSizes: sizes }),
-  setCurrentSignature: (d) => {
+  setCurrentPage: (pageIndex) => {
+    if (get().currentPage !== pageIndex) set({ currentPage: pageIndex })
+  },
+  goToPage: (pageIndex) => {
+    if (pageIndex < 0 || pageIndex >= get().pageSizes.length) return
+    set({ pageRequest: { pageIndex } })
+  },
+  setSearchHits: (hits) => set({ searchHits: hits, currentHit: 0 }),
+  setCurrentHit: (index) => {
+    const count = get().searchHits.length
+    // Wraps around both ways
+    if (count) set({ currentHit: ((index % count) + count) % count })
+  },
+  setCurrentSignature: (d, method = 'draw', vector = null) => {
     // Validate data URL before setting
     if (d && !isValidDataURL(d)) {
       console.error('Invalid data URL format')
       return
     }
-    set({ currentSignature: d })
+    set((s)=> ({
+      currentSignature: d, currentSignatureMethod: method, currentSignatureVector: vector, placing: 'signature',
+      librarySelection: { ...s.librarySelection, signature: null }
+    }))
+  },
+  setCurrentStamp: (stamp) => {
+    if (stamp?.kind === 'initials' && !isValidDataURL(stamp.imageDataUrl)) {
+      console.error('Invalid data URL format')
+      return
+    }
+    set((s)=> ({ currentStamp: stamp, placing: stamp ? 'stamp' : 'signature', librarySelection: { ...s.librarySelection, initials: null } }))
+  },
+  loadSignatureLibrary: () => {
+    loadLibrary().then(items => {
+      set({ library: items })
+      // Defaults are ready to place unless something else already is; initials don't take over the click
+      const signature = items.find(item => item.slot === 'signature' && item.isDefault)
+      const initials = items.find(item => item.slot === 'initials' && item.isDefault)
+      if (signature && !get().currentSignature) get().selectLibraryItem(signature.id)
+      if (initials && !get().currentStamp) {
+        set((s)=> ({ currentStamp: libraryItemContent(initials) as StampContent, librarySelection: { ...s.librarySelection, initials: initials.id } }))
+      }
+    }).catch(error => console.warn('Signature library unavailable:', error))
+  },
+  // Saves the current signature; the first item of a slot becomes its default
+  saveToLibrary: (name, slot) => {
+    const { currentSignature, currentSignatureMethod, currentSignatureVector, library } = get()
+    if (!currentSignature) return
+    const inSlot = library.filter(item => item.slot === slot)
+    if (inSlot.length >= MAX_LIBRARY_ITEMS) {
+      alert(`The library holds up to ${MAX_LIBRARY_ITEMS} ${slot === 'signature' ? 'signatures' : 'initials'}. Please delete one first.`)
+      return
+    }
+    const item: LibraryItem = {
+      id: crypto.randomUUID(), name: cleanName(name, MAX_LIBRARY_NAME_LENGTH) || `${slot === 'signature' ? 'Signature' : 'Initials'} ${inSlot.length + 1}`, slot,
+      imageDataUrl: currentSignature, method: currentSignatureMethod, ...currentSignatureVector,
+      createdAt: new Date().toISOString(), isDefault: inSlot.length === 0
+    }
+    saveLibraryItems([item]).then(() => {
+      if (get().library.some(i => i.id === item.id)) get().selectLibraryItem(item.id)
+    })
+  },
+  selectLibraryItem: (id) => {
+    const item = get().library.find(i => i.id === id)
+    if (!item) return
+    const content = libraryItemContent(item)
+    if (content.kind === 'signature') get().setCurrentSignature(content.imageDataUrl, content.method, { strokes: content.strokes, typed: content.typed })
+    else get().setCurrentStamp(content)
+    set((s)=> ({ librarySelection: { ...s.librarySelection, [item.slot]: id } }))
+  },
+  renameLibraryItem: (id, name) => {
+    const item = get().library.find(i => i.id === id)
+    const clean = cleanName(name, MAX_LIBRARY_NAME_LENGTH)
+    if (item && clean && clean !== item.name) saveLibraryItems([{ ...item, name: clean }])
+  },
+  setLibraryDefault: (id, isDefault) => {
+    const item = get().library.find(i => i.id === id)
+    if (!item) return
+    // One default per slot: making this one the default clears the other
+    const changed = get().library.filter(i => i.slot === item.slot && (i.id === id ? i.isDefault !== isDefault : isDefault && i.isDefault))
+    saveLibraryItems(changed.map(i => ({ ...i, isDefault: i.id === id ? isDefault : false })))
+  },
+  removeLibraryItem: (id) => {
+    deleteLibraryItem(id).then(() => set((s)=> ({
+      library: s.library.filter(item => item.id !== id),
+      librarySelection: {
+        signature: s.librarySelection.signature === id ? null : s.librarySelection.signature,
+        initials: s.librarySelection.initials === id ? null : s.librarySelection.initials
+      }
+    }))).catch(libraryError)
+  },
+  loadPlacementTemplates: () => {
+    loadTemplates().then(templates => set({ templates })).catch(error => console.warn('Templates unavailable:', error))
+  },
+  // Saves where the current placements are; signatures and initials by kind only
+  saveTemplate: (name) => {
+    const { placements, pageSizes, templates } = get()
+    if (placements.length === 0) {
+      alert('Place your signatures first, then save their layout as a template')
+      return
+    }
+    if (templates.length >= MAX_TEMPLATES) {
+      alert(`You can keep up to ${MAX_TEMPLATES} templates. Please delete one first.`)
+      return
+    }
+    saveTemplates([{
+      id: crypto.randomUUID(), name: cleanName(name, MAX_TEMPLATE_NAME_LENGTH) || `Template ${templates.length + 1}`,
+      createdAt: new Date().toISOString(), pageSizes, placements: placements.map(templatePlacementOf)
+    }])
+  },
+  // Places the current signature and initials where the template has them
+  applyTemplate: (id) => {
+    const s = get()
+    const template = s.templates.find(t => t.id === id)
+    if (!template || !s.pdfFile) return
+    if (s.pageSizes.length === 0) {
+      alert('Please wait until the PDF has loaded')
+      return
+    }
+    const contentOf = templateContent(s, template)
+    if (!contentOf) return
+    const mismatch = templateMismatch(template, s.pageSizes)
+    if (mismatch && !confirm(`${mismatch} Placements may not line up${template.pageSizes.length > s.pageSizes.length ? ', and those on missing pages are left out' : ''}. Apply anyway?`)) return
+    set((s)=> batchPlacements(s, template.placements
+      .filter(p => p.pageIndex < s.pageSizes.length)
+      .map(p => ({ pageIndex: p.pageIndex, rect: p.rect, content: contentOf(p) }))))
+  },
+  removeTemplate: (id) => {
+    deleteTemplate(id).then(() => set((s)=> ({ templates: s.templates.filter(t => t.id !== id) }))).catch(templateError)
+  },
+  // One template, or all of them
+  exportTemplates: (id) => {
+    const templates = id ? get().templates.filter(t => t.id === id) : get().templates
+    if (templates.length) exportTemplates(templates)
+  },
+  // Templates already here (by id) are replaced by the imported ones
+  importTemplates: async (file) => {
+    try {
+      const imported = parseTemplateFile(await file.text())
+      const ids = new Set(get().templates.map(t => t.id))
+      const added = imported.filter(t => !ids.has(t.id)).length
+      if (get().templates.length + added > MAX_TEMPLATES) {
+        alert(`You can keep up to ${MAX_TEMPLATES} templates. Please delete some first.`)
+        return
+      }
+      await saveTemplates(imported.map(t => ({ ...t, name: cleanName(t.name, MAX_TEMPLATE_NAME_LENGTH) || 'Template' })))
+    } catch (error) {
+      console.error('Template import failed:', error)
+      alert(error instanceof Error ? error.message : 'Failed to import the templates.')
+    }
   },
-  addPlacement: (pageIndex, rect, imageDataUrl) => set((s)=> {
+  // Signs each file with the current signature and export settings and downloads one ZIP with a summary of every file
+  signBatch: async (files, source) => {
+    const s = get()
+    if (s.batchProgress) return
+    if (files.length === 0) {
+      alert('Please choose the PDF files to sign')
+      return
+    }
+    if (files.length > MAX_BATCH_FILES) {
+      alert(`A batch can have up to ${MAX_BATCH_FILES} files. Please split it up.`)
+      return
+    }
+    let rule: BatchRule
+    if (source.kind === 'template') {
+      const template = s.templates.find(t => t.id === source.templateId)
+      if (!template) return
+      const contentOf = templateContent(s, template)
+      if (!contentOf) return
+      rule = { kind: 'template', template, contentOf }
+    } else {
+      const content = currentPlacementContent(s)
+      if (!content) {
+        alert('Create a signature or stamp first, then sign the batch')
+        return
+      }
+      if (!source.anchors.some(anchor => anchor.trim())) {
+        alert('Please enter the anchor text to look for')
+        return
+      }
+      rule = { kind: 'anchors', anchors: source.anchors, offset: source.offset, content }
+    }
+    // Files of a batch have nothing of the open document's, and appending keeps any signatures already in them valid.
+    // The open document's protection doesn't apply to them either; only new passwords do.
+    const encryption = s.outputProtection === 'new' ? outputEncryption(s) : null
+    if (encryption === undefined) return
+    const batchOptions: ExportOptions = {
+      ...exportOptions(s, encryption), saveMode: 'incremental', password: null, formValues: {}, flattenForm: false, pages: null
+    }
+    set({ batchProgress: { done: 0, total: files.length }, batchResults: null })
+    try {
+      const { entries, results } = await signBatch(files, rule, batchOptions, (done, total) => set({ batchProgress: { done, total } }))
+      exportZip([...entries, { name: SUMMARY_FILE, bytes: new TextEncoder().encode(summaryCsv(results)) }], 'signed-pdfs.zip')
+      set({ batchResults: results })
+    } catch (error) {
+      console.error('Batch signing failed:', error)
+      alert('Failed to sign the batch. Please try again with fewer or smaller files.')
+    } finally {
+      set({ batchProgress: null })
+    }
+  },
+  // Page operations change the viewer's pages and what the export writes; the opened file stays as it is
+  rotatePage: (pageIndex) => {
+    const s = get()
+    if (pageIndex < 0 || pageIndex >= s.pageSizes.length || !pageEditAllowed(s)) return
+    editPages(s, turnPage(currentLayout(s), pageIndex), s.mergedFiles, pageIndex)
+  },
+  deletePage: (pageIndex) => {
+    const s = get()
+    if (pageIndex < 0 || pageIndex >= s.pageSizes.length) return
+    if (s.pageSizes.length === 1) {
+      alert('A document needs at least one page')
+      return
+    }
+    if (!pageEditAllowed(s)) return
+    const onPage = s.placements.filter(p => p.pageIndex === pageIndex).length + (s.envelope?.fields.filter(f => f.pageIndex === pageIndex).length ?? 0)
+    if (!confirm(`Delete page ${pageIndex + 1}${onPage ? ` and the ${onPage} item${onPage !== 1 ? 's' : ''} on it` : ''}?`)) return
+    editPages(s, removePageAt(currentLayout(s), pageIndex))
+  },
+  movePage: (from, to) => {
+    const s = get()
+    const count = s.pageSizes.length
+    if (from === to || from < 0 || to < 0 || from >= count || to >= count || !pageEditAllowed(s)) return
+    editPages(s, movePageTo(currentLayout(s), from, to))
+  },
+  // The blank page takes the size of the page before it
+  insertBlankPage: (after) => {
+    const s = get()
+    const size = s.pageSizes[after]
+    if (!size || !pageEditAllowed(s)) return
+    editPages(s, insertBlankPage(currentLayout(s), after + 1, size))
+  },
+  // The merged file's pages go after the last page
+  mergePdf: async (file) => {
+    if (get().mergedFiles.length >= MAX_MERGED_FILES) {
+      alert(`Up to ${MAX_MERGED_FILES} PDFs can be merged into one document.`)
+      return
+    }
+    let count: number
+    try {
+      count = await mergeablePageCount(file)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to merge the PDF.')
+      return
+    }
+    const s = get()
+    if (!pageEditAllowed(s)) return
+    editPages(s, appendPages(currentLayout(s), s.mergedFiles.length + 1, count), [...s.mergedFiles, file])
+  },
+  setSigningIdentity: (identity) => set({ signingIdentity: identity }),
+  setSaveMode: (mode) => set({ saveMode: mode }),
+  setAuditTrail: (enabled) => set({ auditTrail: enabled }),
+  requestPassword: (request) => set({ passwordRequest: request, isEncrypted: true }),
+  submitPassword: (password) => {
+    // The viewer re-renders with a new password and asks again if it is wrong; the same one is known to be wrong
+    if (password === get().pdfPassword) {
+      set({ passwordRequest: 'incorrect' })
+      return
+    }
+    set({ pdfPassword: password, passwordRequest: null })
+    get().loadFormFields()
+    if (!get().arrangedFile) showArrangedPages()
+    const { pdfFile } = get()
+    if (pdfFile) {
+      checkOwnerPassword(pdfFile, password)
+      // Signature field names of a protected file can only be read with its password
+      verifyPdfSignatures(pdfFile, password).then(signatures => {
+        if (get().pdfFile === pdfFile && get().pdfPassword === password) set({ existingSignatures: signatures })
+      })
+    }
+  },
+  setOutputProtection: (protection) => set({ outputProtection: protection }),
+  setOutputPasswords: (passwords) => set({ outputPasswords: passwords }),
+  // Values the user edited are kept: fields are read again when the pages change, with the same names
+  loadFormFields: () => {
+    // A password-protected file can only be read once the right password is in; submitPassword tries again
+    const { pdfFile, pdfPassword, arrangedFile } = get()
+    if (!pdfFile) return
+    readFormFields(arrangedFile ?? pdfFile, pdfPassword).then(fields => {
+      if (get().pdfFile !== pdfFile || get().pdfPassword !== pdfPassword || get().arrangedFile !== arrangedFile) return
+      set({ formFields: fields })
+    }).catch(error => console.warn('Form fields unavailable:', error))
+  },
+  setFormValue: (name, value) => set((s)=> ({ formValues: { ...s.formValues, [name]: value } })),
+  setFlattenForm: (flatten) => set({ flattenForm: flatten }),
+  setSigningRule: (id, enabled) => {
+    const rules = { ...get().signingRules, [id]: enabled }
+    setSigningRules(rules)
+    set({ signingRules: rules })
+  },
+  // Checks the current placements against the enabled rules; page text is only read for the overlap rule
+  checkRules: async () => {
+    const { signingRules, pdfDocument } = get()
+    let pageTexts: PageTextItem[][] | null = null
+    if (signingRules.noTextOverlap && pdfDocument) {
+      try {
+        pageTexts = await getPageTexts(pdfDocument)
+      } catch (error) {
+        console.warn('Page text unavailable:', error)
+      }
+      // Another document was opened meanwhile
+      if (get().pdfDocument !== pdfDocument) return get().checkRules()
+    }
+    const s = get()
+    const violations = checkSigningRules(s.signingRules, {
+      placements: s.placements, pageCount: s.pageSizes.length, formFields: s.formFields, geometries: s.pageGeometries, pageTexts
+    })
+    set({ ruleViolations: violations })
+    return violations
+  },
+  setRulesOverridden: (overridden) => set({ rulesOverridden: overridden }),
+  addPlacement: (pageIndex, rect, content, field, envelopeField) => set((s)=> {
     // Rate limiting: prevent rapid placement (max 1 per 100ms)
     const now = Date.now()
     if (now - s.lastPlacementTime < 100) {
@@ -61,37 +813,50 @@ export const useAppStore = create<S>((set, get)=> ({
       return s
     }
 
-    // Validate inputs
-    if (!isValidDataURL(imageDataUrl)) {
-      console.error('Invalid image data URL')
+    const error = placementError(pageIndex, rect, content)
+    if (error) {
+      console.error(error)
       return s
     }
-    if (pageIndex < 0 || !Number.isInteger(pageIndex)) {
-      console.error('Invalid page index')
-      return s
-    }
-    if (rect.w <= 0 || rect.h <= 0 || rect.x < 0 || rect.y < 0 || rect.x > 100 || rect.y > 100 || rect.w > 100 || rect.h > 100) {
-      console.error('Invalid percentage rectangle dimensions (should be 0-100)')
-      return s
-    }
-    // Additional security: prevent extremely small signatures that could be used for tracking
-    if (rect.w < 1 || rect.h < 0.5) {
-      console.error('Signature too small - minimum size is 1% x 0.5%')
-      return s
-    }
-    // Prevent excessive number of signatures (max 50 per document)
-    if (s.placements.length >= 50) {
-      console.error('Maximum signature limit reached (50)')
+    if (s.placements.length >= MAX_PLACEMENTS) {
+      console.error(`Maximum signature limit reached (${MAX_PLACEMENTS})`)
       alert('Maximum signature limit reached. Please remove some signatures before adding more.')
       return s
     }
 
-    const newPlacement = { id: crypto.randomUUID(), pageIndex, rect, imageDataUrl }
-    return { placements: [...s.placements, newPlacement], lastPlacementTime: now }
+    const newPlacement: Placement = {
+      id: crypto.randomUUID(), pageIndex, rect, placedAt: new Date(now).toISOString(), field, envelopeField,
+      signerId: s.envelopeReceived ? s.envelopeSignerId ?? undefined : undefined, ...content
+    }
+    // A field holds one signature; placing another into it replaces the first
+    const others = s.placements.filter(p => !(field && p.field === field) && !(envelopeField && p.envelopeField === envelopeField))
+    return { ...editedPlacements(s, [...others, newPlacement]), lastPlacementTime: now }
+  }),
+  // Batch placement (anchor search); not rate limited since it is a single user action
+  addPlacements: (items, content) => set((s)=> batchPlacements(s, items.map(item => ({ ...item, content })))),
+  // Moving or resizing a snapped signature releases it from its field, whose appearance is clipped to the widget
+  updatePlacement: (id, rect) => set((s)=> editedPlacements(s, s.placements.map(p => p.id === id ? { ...p, rect, field: undefined } : p))),
+  editPlacement: (id, content) => set((s)=> editedPlacements(s, s.placements.map(p => p.id === id ? { ...p, ...content } as Placement : p))),
+  removePlacement: (id) => set((s)=> editedPlacements(s, s.placements.filter(p => p.id !== id))),
+  clearAllPlacements: () => set((s)=> ({
+    ...editedPlacements(s, []), currentSignature: null, currentSignatureVector: null, librarySelection: { ...s.librarySelection, signature: null }
+  })),
+  // Drags and resizes call updatePlacement on every move; between these two calls they make one undo step.
+  // A gesture already open keeps its start, so a second begin (a pinch during a drag) doesn't split it
+  beginPlacementGesture: () => set((s)=> s.gestureStart ? s : { gestureStart: s.placements }),
+  endPlacementGesture: () => set((s)=> {
+    if (!s.gestureStart) return s
+    if (s.gestureStart === s.placements) return { gestureStart: null }
+    return { gestureStart: null, undoStack: [...s.undoStack, s.gestureStart].slice(-MAX_HISTORY), redoStack: [] }
+  }),
+  undo: () => set((s)=> {
+    if (s.gestureStart || s.undoStack.length === 0) return s
+    return { placements: s.undoStack[s.undoStack.length - 1], undoStack: s.undoStack.slice(0, -1), redoStack: [...s.redoStack, s.placements] }
+  }),
+  redo: () => set((s)=> {
+    if (s.gestureStart || s.redoStack.length === 0) return s
+    return { placements: s.redoStack[s.redoStack.length - 1], redoStack: s.redoStack.slice(0, -1), undoStack: [...s.undoStack, s.placements] }
   }),
-  updatePlacement: (id, rect) => set((s)=> ({ placements: s.placements.map(p => p.id === id ? { ...p, rect } : p) })),
-  removePlacement: (id) => set((s)=> ({ placements: s.placements.filter(p => p.id !== id) })),
-  clearAllPlacements: () => set({ placements: [], currentSignature: null }),
 
   exportAll: async () => {
     const { pdfFile, placements } = get()
@@ -103,11 +868,213 @@ export const useAppStore = create<S>((set, get)=> ({
       alert('Please add at least one signature to the PDF')
       return
     }
+    if (!await rulesMet()) return
+    const encryption = outputEncryption(get())
+    if (encryption === undefined) return
     try {
-      await exportSignedPdf(pdfFile, placements)
+      await exportSignedPdf(pdfFile, placements, exportOptions(get(), encryption))
     } catch (error) {
       console.error('Export failed:', error)
       alert('Failed to export PDF. Please try again.')
     }
+  },
+
+  checkSavedSession: () => {
+    loadSavedSession(get().sessionRetention).then(session => {
+      // Opening another file in the meantime replaces the saved session
+      if (session && !get().pdfFile) set({ savedSession: session })
+    }).catch(error => console.warn('Saved session unavailable:', error))
+  },
+  resumeSession: () => {
+    const { savedSession } = get()
+    if (!savedSession) return
+    const { file, savedAt, ...state } = savedSession
+    get().loadFile(file)
+    set({ ...state, librarySelection: { signature: null, initials: null } })
+    showArrangedPages()
+  },
+  discardSession: () => {
+    discardSavedSession()
+    set({ savedSession: null })
+  },
+  setSessionRetention: (retention) => {
+    setSessionRetention(retention)
+    if (retention === 'off') discardSavedSession()
+    set({ sessionRetention: retention })
+  },
+
+  startEnvelope: () => {
+    const { pdfFile } = get()
+    if (pdfFile) set({ envelope: createEnvelope(pdfFile.name), envelopeSignerId: null, envelopeReceived: false })
+  },
+  addSigner: (name, email) => {
+    const envelope = preparedEnvelope(get())
+    const clean = cleanName(name, MAX_SIGNER_NAME_LENGTH)
+    if (!envelope) return
+    if (!clean) {
+      alert("Please enter the signer's name")
+      return
+    }
+    if (envelope.signers.length >= MAX_SIGNERS) {
+      alert(`An envelope can have up to ${MAX_SIGNERS} signers.`)
+      return
+    }
+    const signer: Signer = { id: crypto.randomUUID(), name: clean, email: cleanName(email, 100), color: nextSignerColor(envelope.signers) }
+    set((s)=> ({ envelope: { ...envelope, signers: [...envelope.signers, signer] }, envelopeSignerId: s.envelopeSignerId ?? signer.id }))
+  },
+  updateSigner: (id, changes) => {
+    const envelope = preparedEnvelope(get())
+    if (!envelope) return
+    const name = changes.name === undefined ? undefined : cleanName(changes.name, MAX_SIGNER_NAME_LENGTH)
+    if (name === '') return
+    const email = changes.email === undefined ? undefined : cleanName(changes.email, 100)
+    const color = changes.color && /^#[0-9a-f]{6}$/i.test(changes.color) ? changes.color : undefined
+    set({ envelope: { ...envelope, signers: envelope.signers.map(signer => signer.id === id ? {
+      ...signer, name: name ?? signer.name, email: email ?? signer.email, color: color ?? signer.color
+    } : signer) } })
+  },
+  // The signers' order is the signing order
+  moveSigner: (id, offset) => {
+    const envelope = preparedEnvelope(get())
+    if (!envelope) return
+    const from = envelope.signers.findIndex(signer => signer.id === id)
+    const to = from + offset
+    if (from < 0 || to < 0 || to >= envelope.signers.length) return
+    const signers = [...envelope.signers]
+    signers.splice(to, 0, ...signers.splice(from, 1))
+    set({ envelope: { ...envelope, signers } })
+  },
+  removeSigner: (id) => {
+    const envelope = preparedEnvelope(get())
+    if (!envelope) return
+    const signers = envelope.signers.filter(signer => signer.id !== id)
+    set((s)=> ({
+      envelope: { ...envelope, signers, fields: envelope.fields.filter(field => field.signerId !== id) },
+      envelopeSignerId: s.envelopeSignerId === id ? signers[0]?.id ?? null : s.envelopeSignerId,
+      placing: s.placing === 'field' && signers.length === 0 ? 'signature' : s.placing
+    }))
+  },
+  setEnvelopeSigner: (id) => {
+    if (preparedEnvelope(get())?.signers.some(signer => signer.id === id)) set({ envelopeSignerId: id })
+  },
+  // Clicks add fields of this kind until called with null
+  setPlacingFields: (kind) => {
+    if (!kind) {
+      if (get().placing === 'field') set({ placing: 'signature' })
+    } else if (preparedEnvelope(get()) && get().envelopeSignerId) {
+      set({ placing: 'field', envelopeFieldKind: kind })
+    }
+  },
+  addEnvelopeField: (pageIndex, rect) => {
+    const s = get()
+    const envelope = preparedEnvelope(s)
+    if (!envelope || !s.envelopeSignerId) return
+    if (pageIndex < 0 || pageIndex >= s.pageSizes.length) return
+    const field = { id: crypto.randomUUID(), signerId: s.envelopeSignerId, kind: s.envelopeFieldKind, pageIndex, rect }
+    set({ envelope: { ...envelope, fields: [...envelope.fields, field] } })
+  },
+  removeEnvelopeField: (id) => {
+    const envelope = preparedEnvelope(get())
+    if (envelope) set({ envelope: { ...envelope, fields: envelope.fields.filter(field => field.id !== id) } })
+  },
+  discardEnvelope: () => set((s)=> ({
+    envelope: null, envelopeSignerId: null, envelopeReceived: false, placing: s.placing === 'field' ? 'signature' : s.placing
+  })),
+  // The envelope's PDF must be open; the envelope records its hash, so a changed or different file is refused
+  openEnvelope: async (file) => {
+    const { pdfFile, pageSizes } = get()
+    if (!pdfFile) {
+      alert("Please open the envelope's PDF first, then its envelope file.")
+      return
+    }
+    try {
+      const envelope = parseEnvelope(await file.text())
+      const documentSha256 = await sha256Hex(new Uint8Array(await pdfFile.arrayBuffer()))
+      if (envelope.documentSha256 !== documentSha256) {
+        throw new Error('This envelope belongs to a different PDF, or the PDF was changed after the envelope was sent. Please open the PDF that came with it.')
+      }
+      // Its fields are on the pages as they were sent
+      if (get().pageLayout) throw new Error('The pages of this PDF were changed here. Please open the PDF again, then its envelope file.')
+      const signer = currentSigner(envelope)
+      if (!signer) throw new Error('Every signer has already signed this envelope.')
+      if (get().pdfFile !== pdfFile) return
+      const fields = pageSizes.length ? envelope.fields.filter(field => field.pageIndex < pageSizes.length) : envelope.fields
+      set((s)=> ({
+        envelope: { ...envelope, fields }, envelopeSignerId: signer.id, envelopeReceived: true,
+        placing: s.placing === 'field' ? 'signature' : s.placing
+      }))
+    } catch (error) {
+      console.error('Envelope open failed:', error)
+      alert(error instanceof Error ? error.message : 'Failed to open the envelope.')
+    }
+  },
+  // Sends the prepared envelope to its first signer, or finishes the current signer's round and passes it on
+  exportEnvelope: async () => {
+    const s = get()
+    const { pdfFile, envelope, envelopeReceived, envelopeSignerId, placements } = s
+    if (!pdfFile || !envelope) return
+    let sent = envelope
+    if (!envelopeReceived) {
+      if (envelope.signers.length === 0) {
+        alert('Please add at least one signer')
+        return
+      }
+      const withoutFields = envelope.signers.find(signer => !envelope.fields.some(field => field.signerId === signer.id))
+      if (withoutFields) {
+        alert(`Please add at least one field for ${withoutFields.name}`)
+        return
+      }
+    } else {
+      if (!envelopeSignerId || currentSigner(envelope)?.id !== envelopeSignerId) return
+      const open = openEnvelopeFields(envelope, envelopeSignerId, placements)
+      if (open.length > 0) {
+        alert(`Please fill all your fields first (${open.length} left)`)
+        get().goToPage(open[0].pageIndex)
+        return
+      }
+      sent = { ...envelope, completed: [...envelope.completed, { signerId: envelopeSignerId, completedAt: new Date().toISOString() }] }
+    }
+    if (!await rulesMet()) return
+    const encryption = outputEncryption(s)
+    if (encryption === undefined) return
+    try {
+      await exportEnvelopePackage(pdfFile, placements, sent, exportOptions(s, encryption))
+    } catch (error) {
+      console.error('Envelope export failed:', error)
+      alert('Failed to export the envelope. Please try again.')
+      return
+    }
+    // This copy's round is over
+    if (envelopeReceived) set({ envelope: sent })
   }
-}))
\ No newline at end of file
+}))
+
+const sessionStateOf = (s: S): SessionState => ({
+  placements: s.placements,
+  currentSignature: s.currentSignature,
+  currentSignatureMethod: s.currentSignatureMethod,
+  currentSignatureVector: s.currentSignatureVector,
+  currentStamp: s.currentStamp,
+  envelope: s.envelope,
+  envelopeSignerId: s.envelopeSignerId,
+  envelopeReceived: s.envelopeReceived,
+  pageLayout: s.pageLayout,
+  mergedFiles: s.mergedFiles
+})
+
+// Keep the session on this device as it changes, so a reload can offer to resume it
+let saveTimer: ReturnType<typeof setTimeout> | undefined
+useAppStore.subscribe((s, prev) => {
+  if (!s.pdfFile || s.sessionRetention === 'off') return
+  const state = sessionStateOf(s)
+  const previous = sessionStateOf(prev)
+  const fileChanged = s.pdfFile !== prev.pdfFile || prev.sessionRetention === 'off'
+  if (!fileChanged && (Object.keys(state) as (keyof SessionState)[]).every(key => state[key] === previous[key])) return
+  if (fileChanged) saveSessionFile(s.pdfFile)
+  // Drags update placements on every move
+  clearTimeout(saveTimer)
+  saveTimer = setTimeout(() => {
+    const latest = useAppStore.getState()
+    if (latest.pdfFile) saveSessionState(sessionStateOf(latest))
+  }, 500)
+})
\ No newline at end of file